@@ -3,13 +3,31 @@ import { Engine, GameState } from './game/Engine';
 import type { UIState } from './game/Engine';
 import './index.css';
 import { KillBanner } from './components/KillBanner';
+import { MapEditor } from './components/MapEditor';
+import { Minimap } from './components/Minimap';
+import { ReplayControls } from './components/ReplayControls';
+import { PauseMenu } from './components/PauseMenu';
+import { MainMenu } from './components/MainMenu';
+import { WeaponSlots } from './components/WeaponSlots';
+import { parseMapData, serializeMapData } from './game/MapData';
+import { parseReplay, serializeReplay } from './game/Replay';
+import { loadSettings, saveSettings, TouchScheme } from './game/Settings';
+import { normalizeMatchConfig } from './game/MatchConfig';
+import type { MatchConfig } from './game/MatchConfig';
+import type { Settings } from './game/Settings';
+import type { MapData } from './game/MapData';
+import { formatKey, InputAction, SLOT_ACTIONS } from './game/Input';
+import { GamepadMenu } from './game/GamepadMenu';
+import { MAP_GENERATORS, MapGeneratorId } from './game/MapGenerators';
+import { ATTACHMENTS, RARITIES, THROWABLES } from './game/Weapons';
 
 
 
 // import { Joystick } from 'react-joystick-component';
 
 // Custom Virtual Joystick Component
-const VirtualJoystick = ({ onMove }: { onMove: (x: number, y: number) => void }) => {
+// knobClassName restyles the stick, e.g. to tell the aim stick from the move stick
+const VirtualJoystick = ({ onMove, knobClassName = 'bg-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.6)]' }: { onMove: (x: number, y: number) => void, knobClassName?: string }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const stickRef = useRef<HTMLDivElement>(null);
   const [active, setActive] = useState(false);
@@ -93,7 +111,7 @@ const VirtualJoystick = ({ onMove }: { onMove: (x: number, y: number) => void })
     >
       <div
         ref={stickRef}
-        className="absolute w-10 h-10 rounded-full bg-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.6)] pointer-events-none transition-transform duration-75"
+        className={`absolute w-10 h-10 rounded-full ${knobClassName} pointer-events-none transition-transform duration-75`}
         style={{
           top: '50%',
           left: '50%',
@@ -115,11 +133,48 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [showKillBanner, setShowKillBanner] = useState(false);
 
+  // ?editor opens the map editor straight away
+  const [mode, setMode] = useState<'menu' | 'game' | 'editor'>(() => new URLSearchParams(window.location.search).has('editor') ? 'editor' : 'menu');
+  const [matchConfig, setMatchConfig] = useState<MatchConfig>(() => {
+    // ?seed=123&generator=street-grid preselects a specific map
+    const params = new URLSearchParams(window.location.search);
+    const seedParam = params.get('seed');
+    const seed = seedParam !== null && /^\d+$/.test(seedParam) ? Number(seedParam) >>> 0 : null;
+    const generator = Object.values(MapGeneratorId).find(id => id === params.get('generator'));
+    return normalizeMatchConfig({ seed, mapGenerator: generator });
+  });
+  const [editorMap, setEditorMap] = useState<MapData | null>(null); // Map being edited / test-played
+  const [mapOpen, setMapOpen] = useState(false); // Full-screen map (M)
+  const [settings, setSettings] = useState<Settings>(() => loadSettings());
+  const keyLabel = (action: InputAction) => settings.bindings[action].map(formatKey).join(' / ') || 'Unbound';
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (settings.bindings[InputAction.Map].includes(e.code) && !e.repeat) setMapOpen(open => !open);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [settings.bindings]);
+
+  // D-pad / stick navigation whenever a menu is up
+  const menuOpen = mode === 'menu' || (mode === 'game' && (gameState === GameState.PAUSED || gameState === GameState.GAME_OVER));
+  useEffect(() => {
+    if (!menuOpen) return;
+    const gamepadMenu = new GamepadMenu();
+    gamepadMenu.start();
+    return () => gamepadMenu.stop();
+  }, [menuOpen]);
+
   useEffect(() => {
-    if (!canvasRef.current) return;
+    if (!canvasRef.current || mode !== 'game') return;
 
     try {
-      engineRef.current = new Engine(canvasRef.current);
+      engineRef.current = new Engine(canvasRef.current, matchConfig);
+      const saved = loadSettings();
+      engineRef.current.setVolume(saved.volume);
+      engineRef.current.setBindings(saved.bindings);
+      engineRef.current.setAimAssist(saved.aimAssist);
+      if (editorMap) engineRef.current.loadMap(editorMap);
       engineRef.current.start();
 
       engineRef.current.onGameStateChange = (newState) => {
@@ -157,7 +212,7 @@ function App() {
         engineRef.current = null;
       }
     };
-  }, []);
+  }, [mode, editorMap, matchConfig]);
 
   // Mobile Handlers
   // const handleJoystickMove = (event: any) => {
@@ -178,8 +233,11 @@ function App() {
     }
   };
 
+  // With twin sticks, the aim stick does the shooting and canvas taps do nothing
+  const tapToShoot = settings.touchScheme === TouchScheme.TAP;
+
   const handleCanvasTouchStart = (e: React.TouchEvent) => {
-    if (engineRef.current && e.changedTouches.length > 0) {
+    if (tapToShoot && engineRef.current && e.changedTouches.length > 0) {
       for (let i = 0; i < e.changedTouches.length; i++) {
         const touch = e.changedTouches[i];
         if ((touch.target as HTMLElement).tagName === 'CANVAS') {
@@ -190,7 +248,7 @@ function App() {
   };
 
   const handleCanvasTouchMove = (e: React.TouchEvent) => {
-    if (engineRef.current && e.changedTouches.length > 0) {
+    if (tapToShoot && engineRef.current && e.changedTouches.length > 0) {
       for (let i = 0; i < e.changedTouches.length; i++) {
         const touch = e.changedTouches[i];
         if ((touch.target as HTMLElement).tagName === 'CANVAS') {
@@ -212,6 +270,99 @@ function App() {
     }
   };
 
+  const handleReplaySeed = () => {
+    if (engineRef.current && uiState) {
+      engineRef.current.triggerRestart(uiState.seed);
+    }
+  };
+
+  const handleExportMap = () => {
+    if (!engineRef.current) return;
+    const data = engineRef.current.exportMap(`seed-${engineRef.current.seed}`);
+    const url = URL.createObjectURL(new Blob([serializeMapData(data)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${data.name}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoadMap = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file || !engineRef.current) return;
+    try {
+      engineRef.current.loadMap(parseMapData(await file.text()));
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleDownloadReplay = () => {
+    if (!engineRef.current) return;
+    const replay = engineRef.current.exportReplay();
+    const url = URL.createObjectURL(new Blob([serializeReplay(replay)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `replay-${replay.seed}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleWatchReplay = () => {
+    if (engineRef.current) engineRef.current.loadReplay(engineRef.current.exportReplay());
+  };
+
+  const handleLoadReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file || !engineRef.current) return;
+    try {
+      engineRef.current.loadReplay(parseReplay(await file.text()));
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleSettingsChange = (next: Settings) => {
+    setSettings(next);
+    saveSettings(next);
+    engineRef.current?.setVolume(next.volume);
+    engineRef.current?.setBindings(next.bindings);
+    engineRef.current?.setAimAssist(next.aimAssist);
+  };
+
+  const handleOpenEditor = () => {
+    if (engineRef.current) setEditorMap(engineRef.current.exportMap());
+    setMode('editor');
+  };
+
+  const handleTestPlay = (map: MapData) => {
+    setEditorMap(map);
+    setGameState(GameState.COUNTDOWN);
+    setMode('game');
+  };
+
+  const handleExitEditor = () => {
+    setEditorMap(null); // Back to generated maps
+    setGameState(GameState.COUNTDOWN);
+    setMode('menu');
+  };
+
+  const handlePlay = (config: MatchConfig) => {
+    setMatchConfig(config);
+    setEditorMap(null);
+    setGameState(GameState.COUNTDOWN);
+    setMode('game');
+  };
+
+  const handleQuitToMenu = () => {
+    setEditorMap(null);
+    setUiState(null);
+    setGameState(GameState.COUNTDOWN);
+    setMode('menu');
+  };
+
   if (error) {
     return (
       <div className="flex items-center justify-center h-screen bg-red-900 text-white font-sans">
@@ -245,11 +396,23 @@ function App() {
                 <span className="text-3xl font-black text-white tracking-wider drop-shadow-lg uppercase">
                   {uiState.weapon}
                 </span>
+                {uiState.weaponRarity && (
+                  <span className="text-xs font-black tracking-widest uppercase" style={{ color: RARITIES[uiState.weaponRarity].color }}>
+                    {uiState.weaponRarity}
+                  </span>
+                )}
+                {uiState.weaponAttachments.length > 0 && (
+                  <span className="flex gap-2 text-[10px] font-black tracking-widest uppercase mt-1">
+                    {uiState.weaponAttachments.map(a => (
+                      <span key={a} style={{ color: ATTACHMENTS[a].color }}>{a}</span>
+                    ))}
+                  </span>
+                )}
                 <div className="flex items-baseline gap-1 mt-1">
                   <span className={`text-4xl font-black tracking-tighter ${uiState.ammo === 0 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
                     {uiState.ammo}
                   </span>
-                  <span className="text-slate-500 font-black text-lg">/ {uiState.maxAmmo}</span>
+                  <span className="text-slate-500 font-black text-lg">/ {uiState.reserveAmmo}</span>
                 </div>
                 {/* Reload Bar */}
                 {uiState.isReloading && (
@@ -257,10 +420,66 @@ function App() {
                     <div className="h-full bg-yellow-400 animate-[width_1s_ease-in-out]" style={{ width: '100%' }} />
                   </div>
                 )}
+                {uiState.ammo === 0 && uiState.reserveAmmo === 0 && (
+                  <span className="text-red-500 text-xs font-black tracking-widest uppercase mt-1">No Ammo</span>
+                )}
+                {uiState.isSwapping && (
+                  <span className="text-slate-400 text-xs font-black tracking-widest uppercase mt-1">Drawing...</span>
+                )}
               </div>
             )}
+            {!uiState.weapon && (
+              <div className="flex flex-col bg-slate-900/80 p-4 rounded-lg border border-slate-700/50 backdrop-blur-sm shadow-xl">
+                <span className="text-slate-400 text-xs font-black tracking-widest uppercase mb-1">Weapon</span>
+                <span className="text-3xl font-black text-white tracking-wider drop-shadow-lg uppercase">Fists</span>
+                <span className="text-slate-400 text-xs font-black tracking-widest uppercase mt-1">
+                  <span className="text-yellow-400">[{keyLabel(InputAction.Fire)}]</span> Punch · Dash in for a dash strike
+                </span>
+              </div>
+            )}
+            <WeaponSlots slots={uiState.slots} activeSlot={uiState.activeSlot} slotKeys={SLOT_ACTIONS.map(keyLabel)} />
+
+            {/* Throwable: key, kind and count, with the fuse burning while cooking */}
+            {uiState.throwable && (
+              <div className="w-40 flex flex-col px-2 py-1 rounded border bg-slate-900/70 border-slate-700/50 backdrop-blur-sm">
+                <span className="flex justify-between text-[10px] font-black text-slate-400">
+                  <span>{keyLabel(InputAction.Throw)}</span>
+                  <span>x{uiState.throwableCount}</span>
+                </span>
+                <span className="text-xs font-black uppercase tracking-wider" style={{ color: THROWABLES[uiState.throwable].color }}>
+                  {uiState.throwable}
+                </span>
+                {uiState.cookProgress !== null && (
+                  <div className="w-full h-1 bg-slate-700 mt-1 rounded-full overflow-hidden">
+                    <div className="h-full bg-red-500" style={{ width: `${uiState.cookProgress * 100}%` }} />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Weapon Slots (Mobile, tap to switch) */}
+          <div className="md:hidden fixed top-28 left-1/2 -translate-x-1/2 pointer-events-auto">
+            <WeaponSlots
+              slots={uiState.slots}
+              activeSlot={uiState.activeSlot}
+              onSelect={(slot) => engineRef.current?.selectSlot(slot)}
+            />
           </div>
 
+          {/* Interact Prompt: pick up, or swap when every slot is full */}
+          {uiState.lootInReach && (
+            <div className="fixed bottom-40 left-1/2 -translate-x-1/2 pointer-events-auto">
+              <button
+                className="px-4 py-2 rounded bg-slate-900/80 border border-slate-700/50 backdrop-blur-sm text-white text-sm font-black uppercase tracking-widest"
+                onClick={() => engineRef.current?.triggerInteract()}
+              >
+                <span className="hidden md:inline text-yellow-400">[{keyLabel(InputAction.Interact)}] </span>
+                {uiState.slots.includes(null) ? 'Pick up' : 'Swap for'} {uiState.lootInReach}
+              </button>
+            </div>
+          )}
+
           {/* Bottom Left: Player Status - Scaled */}
           <div className="flex flex-col gap-4 w-96 origin-bottom-left scale-75">
 
@@ -316,15 +535,52 @@ function App() {
       )}
 
       {/* Mobile Controls (Visible only on touch devices ideally, but showing always for now as requested) */}
-      {gameState !== GameState.GAME_OVER && (
+      {gameState !== GameState.GAME_OVER && !uiState?.replay && (
         <>
           {/* Custom Virtual Joystick (Hidden on Desktop) */}
           <div className="fixed bottom-8 left-8 z-[9999] md:hidden" style={{ pointerEvents: 'auto' }}>
             <VirtualJoystick onMove={(x, y) => engineRef.current?.setJoystick(x, y)} />
           </div>
 
-          {/* Dash Button (Bottom Right) (Hidden on Desktop) */}
-          <div className="fixed bottom-8 right-8 z-[9999] md:hidden" style={{ pointerEvents: 'auto' }}>
+          {/* Pause Button (Hidden on Desktop, where Esc pauses) */}
+          <div className="fixed top-[120px] right-6 z-[9999] md:hidden" style={{ pointerEvents: 'auto' }}>
+            <button
+              className="w-12 h-12 rounded-full bg-slate-900/80 border border-slate-700/50 text-white font-black active:scale-95"
+              onClick={() => engineRef.current?.pause()}
+            >
+              II
+            </button>
+          </div>
+
+          {/* Aim-and-Fire Stick (Twin-Stick Scheme) (Hidden on Desktop) */}
+          {!tapToShoot && (
+            <div className="fixed bottom-8 right-8 z-[9999] md:hidden" style={{ pointerEvents: 'auto' }}>
+              <VirtualJoystick
+                onMove={(x, y) => engineRef.current?.setAimStick(x, y)}
+                knobClassName="bg-red-500 shadow-[0_0_15px_rgba(239,68,68,0.6)]"
+              />
+            </div>
+          )}
+
+          {/* Throw Button (hold to cook, release to throw) (Hidden on Desktop) */}
+          {uiState?.throwable && (
+            <div className={`fixed ${tapToShoot ? 'bottom-8 right-[130px]' : 'bottom-[150px] right-[130px]'} z-[9999] md:hidden`} style={{ pointerEvents: 'auto' }}>
+              <button
+                className="w-16 h-16 rounded-full border-4 flex flex-col items-center justify-center transition-all active:scale-95 bg-gray-800/50"
+                style={{ borderColor: uiState.cookProgress !== null ? '#ef4444' : THROWABLES[uiState.throwable].color }}
+                onTouchStart={(e) => { e.stopPropagation(); engineRef.current?.setThrowHeld(true); }}
+                onTouchEnd={(e) => { e.stopPropagation(); engineRef.current?.setThrowHeld(false); }}
+                onMouseDown={(e) => { e.stopPropagation(); engineRef.current?.setThrowHeld(true); }}
+                onMouseUp={(e) => { e.stopPropagation(); engineRef.current?.setThrowHeld(false); }}
+              >
+                <span className="text-white font-black text-[10px] uppercase tracking-wider">Throw</span>
+                <span className="text-white font-black text-xs">x{uiState.throwableCount}</span>
+              </button>
+            </div>
+          )}
+
+          {/* Dash Button (Bottom Right, above the aim stick) (Hidden on Desktop) */}
+          <div className={`fixed ${tapToShoot ? 'bottom-8 right-8' : 'bottom-[150px] right-8'} z-[9999] md:hidden`} style={{ pointerEvents: 'auto' }}>
             <button
               className={`w-[82px] h-[82px] rounded-full border-4 flex items-center justify-center transition-all active:scale-95 ${uiState?.dashReady ? 'bg-cyan-500/40 border-cyan-400 shadow-[0_0_20px_rgba(34,211,238,0.6)]' : 'bg-gray-800/50 border-gray-600 opacity-50'}`}
               onTouchStart={(e) => { e.stopPropagation(); handleDash(); }}
@@ -380,7 +636,7 @@ function App() {
             textShadow: '0 0 20px rgba(255,255,255,0.5)',
             marginBottom: '2rem'
           }}>
-            PRESS <span style={{ color: '#FACC15', fontSize: '2.5rem', margin: '0 10px' }}>R</span> TO RESTART
+            PRESS <span style={{ color: '#FACC15', fontSize: '2.5rem', margin: '0 10px' }}>{keyLabel(InputAction.Restart)}</span> TO RESTART
           </p>
 
           {/* Mobile Restart Button */}
@@ -391,6 +647,75 @@ function App() {
           >
             TAP TO RESTART
           </button>
+
+          {/* Map Seed (for reproducing / sharing a layout) */}
+          {uiState && (
+            <div className="mt-8 flex flex-col items-center gap-3">
+              <span className="text-slate-400 text-xs font-black uppercase tracking-[0.3em]">
+                Map Seed <span className="text-white font-mono tracking-normal select-text">{uiState.seed}</span>
+              </span>
+              <label className="text-slate-400 text-xs font-black uppercase tracking-[0.3em] flex items-center gap-2">
+                Map Type
+                <select
+                  value={uiState.mapGenerator}
+                  onChange={(e) => engineRef.current?.setMapGenerator(e.target.value as MapGeneratorId)}
+                  className="bg-slate-900/80 text-white border border-slate-600 rounded px-2 py-1 tracking-normal"
+                >
+                  {Object.values(MAP_GENERATORS).map(g => (
+                    <option key={g.id} value={g.id}>{g.name}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleReplaySeed}
+                  className="px-6 py-2 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform"
+                >
+                  Replay Seed
+                </button>
+                <button
+                  onClick={handleExportMap}
+                  className="px-6 py-2 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform"
+                >
+                  Export Map
+                </button>
+                <label className="px-6 py-2 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform cursor-pointer">
+                  Load Map
+                  <input type="file" accept=".json,application/json" className="hidden" onChange={handleLoadMap} />
+                </label>
+                <button
+                  onClick={handleOpenEditor}
+                  className="px-6 py-2 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform"
+                >
+                  Map Editor
+                </button>
+                <button
+                  onClick={handleQuitToMenu}
+                  className="px-6 py-2 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform"
+                >
+                  Main Menu
+                </button>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleWatchReplay}
+                  className="px-6 py-2 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform"
+                >
+                  Watch Replay
+                </button>
+                <button
+                  onClick={handleDownloadReplay}
+                  className="px-6 py-2 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform"
+                >
+                  Download Replay
+                </button>
+                <label className="px-6 py-2 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform cursor-pointer">
+                  Load Replay
+                  <input type="file" accept=".json,application/json" className="hidden" onChange={handleLoadReplay} />
+                </label>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -426,6 +751,27 @@ function App() {
         </div>
       </div>
 
+      {/* Storm Status - Top Center */}
+      {uiState && gameState !== GameState.GAME_OVER && (
+        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[9999] pointer-events-none flex flex-col items-center gap-1">
+          <div className="bg-slate-900/80 px-4 py-2 rounded-lg border border-violet-500/50 backdrop-blur-sm shadow-xl flex items-center gap-3">
+            <span className="text-violet-400 text-[10px] font-black uppercase tracking-[0.2em]">
+              {uiState.zoneState === 'CLOSED' ? 'Storm Closed' : uiState.zoneState === 'SHRINKING' ? 'Storm Shrinking' : `Storm ${uiState.zonePhase} In`}
+            </span>
+            {uiState.zoneState !== 'CLOSED' && (
+              <span className="text-white font-black font-mono tabular-nums">
+                {Math.floor(uiState.zoneTimeRemaining / 60)}:{Math.floor(uiState.zoneTimeRemaining % 60).toString().padStart(2, '0')}
+              </span>
+            )}
+          </div>
+          {uiState.zoneDistance > 0 && (
+            <span className="text-red-500 text-xs font-black uppercase tracking-widest animate-pulse drop-shadow-md">
+              Outside Safe Zone · {Math.ceil(uiState.zoneDistance)} tiles
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Players Alive - Fixed & Styled (Below Stopwatch) - Hidden on Mobile */}
       <div className="hidden md:block" style={{
         position: 'fixed',
@@ -442,7 +788,42 @@ function App() {
         </div>
       </div>
 
+      {/* Minimap / Full-screen Map */}
+      {mode === 'game' && gameState !== GameState.GAME_OVER && (
+        <Minimap engineRef={engineRef} expanded={mapOpen} toggleKey={keyLabel(InputAction.Map)} onToggle={() => setMapOpen(open => !open)} />
+      )}
+
+      {/* Pause Menu */}
+      {gameState === GameState.PAUSED && (
+        <PauseMenu
+          settings={settings}
+          onSettingsChange={handleSettingsChange}
+          onResume={() => engineRef.current?.resume()}
+          onRestart={() => engineRef.current?.restart()}
+          onQuit={handleQuitToMenu}
+        />
+      )}
+
+      {/* Replay Viewer */}
+      {uiState?.replay && gameState !== GameState.GAME_OVER && (
+        <ReplayControls engineRef={engineRef} state={uiState.replay} />
+      )}
+
       <KillBanner active={showKillBanner} />
+
+      {mode === 'menu' && (
+        <MainMenu
+          initialConfig={matchConfig}
+          settings={settings}
+          onSettingsChange={handleSettingsChange}
+          onPlay={handlePlay}
+          onOpenEditor={() => setMode('editor')}
+        />
+      )}
+
+      {mode === 'editor' && (
+        <MapEditor initialMap={editorMap} onPlay={handleTestPlay} onExit={handleExitEditor} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { WEAPONS } from '../game/Weapons';
+import type { WeaponType } from '../game/Weapons';
+import { MAP_GENERATORS, MapGeneratorId } from '../game/MapGenerators';
+import { Difficulty, DENSITY_RANGE, MAP_SIZE_RANGE, NPC_COUNT_RANGE, normalizeMatchConfig } from '../game/MatchConfig';
+import type { MatchConfig } from '../game/MatchConfig';
+import type { Settings } from '../game/Settings';
+import { SettingsPanel } from './SettingsPanel';
+
+interface MainMenuProps {
+    initialConfig: MatchConfig;
+    settings: Settings;
+    onSettingsChange: (settings: Settings) => void;
+    onPlay: (config: MatchConfig) => void;
+    onOpenEditor: () => void;
+}
+
+const MAP_SIZES = [30, 40, 50, 70, 90, 120];
+
+const labelClass = 'flex flex-col gap-1 text-slate-400 text-[10px] font-black uppercase tracking-[0.2em]';
+const inputClass = 'bg-slate-900/80 text-white text-sm border border-slate-600 rounded px-2 py-1 tracking-normal';
+const playButtonClass = 'px-8 py-3 bg-white text-black font-black text-sm uppercase tracking-widest rounded-full hover:scale-105 active:scale-95 transition-transform shadow-[0_0_30px_rgba(255,255,255,0.4)]';
+const buttonClass = 'px-8 py-3 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform';
+
+export const MainMenu: React.FC<MainMenuProps> = ({ initialConfig, settings, onSettingsChange, onPlay, onOpenEditor }) => {
+    const [showSettings, setShowSettings] = useState(false);
+    const [config, setConfig] = useState<MatchConfig>(initialConfig);
+    const [seedText, setSeedText] = useState(initialConfig.seed === null ? '' : String(initialConfig.seed));
+
+    const update = (patch: Partial<MatchConfig>) => setConfig(c => ({ ...c, ...patch }));
+
+    const toggleWeapon = (weapon: WeaponType) => {
+        const weapons = config.weapons.includes(weapon)
+            ? config.weapons.filter(w => w !== weapon)
+            : [...config.weapons, weapon];
+        if (weapons.length > 0) update({ weapons }); // Keep at least one
+    };
+
+    const handlePlay = () => {
+        const seed = /^\d+$/.test(seedText.trim()) ? Number(seedText.trim()) : null;
+        onPlay(normalizeMatchConfig({ ...config, seed }));
+    };
+
+    return (
+        <div className="fixed inset-0 z-[10001] flex items-center justify-center bg-black/80 backdrop-blur-md pointer-events-auto overflow-y-auto">
+            <div className="flex flex-col items-center gap-6 p-8 max-w-2xl w-full">
+                <h1 className="text-6xl font-black italic text-white tracking-wider drop-shadow-[0_0_30px_rgba(255,255,255,0.4)]">
+                    GUNFIGHTS
+                </h1>
+
+                {showSettings ? (
+                    <SettingsPanel settings={settings} onSettingsChange={onSettingsChange} onBack={() => setShowSettings(false)} />
+                ) : (
+                    <>
+                        <div className="grid grid-cols-2 gap-4 w-full bg-slate-900/60 p-6 rounded-lg border border-slate-700/50">
+                            <label className={labelClass}>
+                                Map Type
+                                <select
+                                    value={config.mapGenerator}
+                                    onChange={(e) => update({ mapGenerator: e.target.value as MapGeneratorId })}
+                                    className={inputClass}
+                                >
+                                    {Object.values(MAP_GENERATORS).map(g => (
+                                        <option key={g.id} value={g.id}>{g.name}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className={labelClass}>
+                                Map Size
+                                <select
+                                    value={config.width}
+                                    onChange={(e) => update({ width: Number(e.target.value), height: Number(e.target.value) })}
+                                    className={inputClass}
+                                >
+                                    {MAP_SIZES.filter(s => s >= MAP_SIZE_RANGE.min && s <= MAP_SIZE_RANGE.max).map(s => (
+                                        <option key={s} value={s}>{s} x {s}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className={labelClass}>
+                                Seed
+                                <input
+                                    value={seedText}
+                                    onChange={(e) => setSeedText(e.target.value)}
+                                    placeholder="Random"
+                                    inputMode="numeric"
+                                    className={`${inputClass} font-mono`}
+                                />
+                            </label>
+                            <label className={labelClass}>
+                                Difficulty
+                                <select
+                                    value={config.difficulty}
+                                    onChange={(e) => update({ difficulty: e.target.value as Difficulty })}
+                                    className={inputClass}
+                                >
+                                    {Object.values(Difficulty).map(d => (
+                                        <option key={d} value={d}>{d[0].toUpperCase() + d.slice(1)}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className={labelClass}>
+                                <span>Bots <span className="text-white tracking-normal">{config.npcCount}</span></span>
+                                <input
+                                    type="range"
+                                    min={NPC_COUNT_RANGE.min}
+                                    max={NPC_COUNT_RANGE.max}
+                                    value={config.npcCount}
+                                    onChange={(e) => update({ npcCount: Number(e.target.value) })}
+                                    className="accent-white"
+                                />
+                            </label>
+                            <label className={labelClass}>
+                                Starting Weapon
+                                <select
+                                    value={config.loadout ?? ''}
+                                    onChange={(e) => update({ loadout: e.target.value === '' ? null : e.target.value as WeaponType })}
+                                    className={inputClass}
+                                >
+                                    <option value="">None</option>
+                                    {Object.keys(WEAPONS).map(w => <option key={w} value={w}>{w}</option>)}
+                                </select>
+                            </label>
+                            <label className={labelClass}>
+                                <span>Weapon Crates <span className="text-white tracking-normal">{config.lootDensity.toFixed(1)} / 1000 tiles</span></span>
+                                <input
+                                    type="range"
+                                    min={DENSITY_RANGE.min}
+                                    max={DENSITY_RANGE.max}
+                                    step={0.2}
+                                    value={config.lootDensity}
+                                    onChange={(e) => update({ lootDensity: Number(e.target.value) })}
+                                    className="accent-white"
+                                />
+                            </label>
+                            <label className={labelClass}>
+                                <span>Potions <span className="text-white tracking-normal">{config.potionDensity.toFixed(1)} / 1000 tiles</span></span>
+                                <input
+                                    type="range"
+                                    min={DENSITY_RANGE.min}
+                                    max={DENSITY_RANGE.max}
+                                    step={0.2}
+                                    value={config.potionDensity}
+                                    onChange={(e) => update({ potionDensity: Number(e.target.value) })}
+                                    className="accent-white"
+                                />
+                            </label>
+                            <div className={`${labelClass} col-span-2`}>
+                                Weapons In Crates
+                                <div className="flex flex-wrap gap-2">
+                                    {Object.keys(WEAPONS).map(w => (
+                                        <button
+                                            key={w}
+                                            onClick={() => toggleWeapon(w)}
+                                            className={`px-3 py-1 rounded border text-xs tracking-normal ${config.weapons.includes(w) ? 'text-white border-white/60' : 'text-slate-500 border-slate-700'}`}
+                                            style={config.weapons.includes(w) ? { backgroundColor: `${WEAPONS[w].color}55` } : undefined}
+                                        >
+                                            {w}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="flex gap-3">
+                            <button className={playButtonClass} onClick={handlePlay}>Play</button>
+                            <button className={buttonClass} onClick={() => setShowSettings(true)}>Settings</button>
+                            <button className={buttonClass} onClick={onOpenEditor}>Map Editor</button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,395 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { World, TILE_SIZE, TileType } from '../game/World';
+import { AmmoBox, AttachmentPickup, Loot, newWeaponSlot, Player, Potion, SwiftHalo, ThrowablePickup } from '../game/Entities';
+import { AMMO, AmmoType, ATTACHMENTS, Attachment, RARITIES, Rarity, THROWABLES, ThrowableType, WEAPONS, WeaponType } from '../game/Weapons';
+import { encodeMapString, parseMapData, serializeMapData } from '../game/MapData';
+import type { MapData, MapPoint } from '../game/MapData';
+import { createSeed } from '../game/Random';
+import { MAP_GENERATORS, MapGeneratorId } from '../game/MapGenerators';
+
+type MarkerTool = 'player' | 'npc' | 'loot' | 'ammo' | 'throwable' | 'attachment' | 'potion' | 'halo' | 'erase';
+type Tool = { kind: 'tile', tile: TileType } | { kind: 'marker', marker: MarkerTool };
+
+const TILE_TOOLS: { label: string, tile: TileType, color: string }[] = [
+    { label: 'Floor', tile: TileType.FLOOR, color: '#555' },
+    { label: 'Wall', tile: TileType.WALL, color: '#1a1a1a' },
+    { label: 'Solid Wall', tile: TileType.INDESTRUCTIBLE_WALL, color: '#000' },
+    { label: 'House Floor', tile: TileType.CITY_HOUSE_FLOOR, color: '#4a3c31' }
+];
+
+const MARKER_TOOLS: { label: string, marker: MarkerTool }[] = [
+    { label: 'Player Spawn', marker: 'player' },
+    { label: 'NPC Spawn', marker: 'npc' },
+    { label: 'Loot', marker: 'loot' },
+    { label: 'Ammo', marker: 'ammo' },
+    { label: 'Throwable', marker: 'throwable' },
+    { label: 'Attachment', marker: 'attachment' },
+    { label: 'Potion', marker: 'potion' },
+    { label: 'Swift Halo', marker: 'halo' },
+    { label: 'Erase Marker', marker: 'erase' }
+];
+
+interface MapEditorProps {
+    initialMap: MapData | null;
+    onPlay: (map: MapData) => void;
+    onExit: () => void;
+}
+
+const buttonClass = 'px-3 py-2 bg-slate-800 text-white font-black text-xs uppercase tracking-widest rounded border border-slate-600 hover:bg-slate-700 active:scale-95 transition-transform';
+
+export const MapEditor: React.FC<MapEditorProps> = ({ initialMap, onPlay, onExit }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [initialWorld] = useState(() => initialMap ? World.fromData(initialMap) : new World(50, 50));
+    const worldRef = useRef<World>(initialWorld);
+    const paintingRef = useRef(false);
+    const [revision, setRevision] = useState(0); // Bumped whenever worldRef is mutated
+    const [tool, setTool] = useState<Tool>({ kind: 'tile', tile: TileType.WALL });
+    const [lootWeapon, setLootWeapon] = useState<WeaponType>(WeaponType.SMG);
+    const [lootRarity, setLootRarity] = useState<Rarity>(Rarity.Common);
+    const [ammoType, setAmmoType] = useState<AmmoType>(AmmoType.Light);
+    const [throwable, setThrowable] = useState<ThrowableType>(ThrowableType.Frag);
+    const [attachment, setAttachment] = useState<Attachment>(Attachment.ExtendedMag);
+    const [generatorId, setGeneratorId] = useState<MapGeneratorId>(MapGeneratorId.Kowloon);
+    const [pockets, setPockets] = useState<MapPoint[] | null>(null);
+    const [message, setMessage] = useState('');
+
+    const touch = () => {
+        setRevision(r => r + 1);
+        setPockets(null); // Stale after any edit
+    };
+
+    const replaceWorld = (world: World) => {
+        worldRef.current = world;
+        touch();
+    };
+
+    // Fit the whole map into the canvas
+    const getScale = useCallback(() => {
+        const canvas = canvasRef.current;
+        const world = worldRef.current;
+        if (!canvas) return 1;
+        return Math.min(canvas.width / (world.width * TILE_SIZE), canvas.height / (world.height * TILE_SIZE));
+    }, []);
+
+    const draw = useCallback(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext('2d')!;
+        const world = worldRef.current;
+        const scale = getScale();
+
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+        ctx.save();
+        ctx.scale(scale, scale);
+        const origin = { x: 0, y: 0 };
+        world.render(ctx, origin, world.width * TILE_SIZE, world.height * TILE_SIZE);
+
+        // Grid
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.06)';
+        ctx.lineWidth = 1 / scale;
+        ctx.beginPath();
+        for (let x = 0; x <= world.width; x++) {
+            ctx.moveTo(x * TILE_SIZE, 0);
+            ctx.lineTo(x * TILE_SIZE, world.height * TILE_SIZE);
+        }
+        for (let y = 0; y <= world.height; y++) {
+            ctx.moveTo(0, y * TILE_SIZE);
+            ctx.lineTo(world.width * TILE_SIZE, y * TILE_SIZE);
+        }
+        ctx.stroke();
+
+        // Unreachable Pockets
+        if (pockets) {
+            ctx.fillStyle = 'rgba(220, 38, 38, 0.55)';
+            pockets.forEach(p => ctx.fillRect(p.x * TILE_SIZE, p.y * TILE_SIZE, TILE_SIZE, TILE_SIZE));
+        }
+
+        // Markers (drawn with the in-game entity visuals)
+        const m = world.markers;
+        m.loot.forEach(l => new Loot(l.x * TILE_SIZE, l.y * TILE_SIZE, newWeaponSlot(l.weapon, l.rarity)).render(ctx, origin));
+        m.ammo.forEach(a => new AmmoBox(a.x * TILE_SIZE, a.y * TILE_SIZE, a.ammoType).render(ctx));
+        m.throwables.forEach(t => new ThrowablePickup(t.x * TILE_SIZE, t.y * TILE_SIZE, t.throwable).render(ctx));
+        m.attachments.forEach(a => new AttachmentPickup(a.x * TILE_SIZE, a.y * TILE_SIZE, a.attachment).render(ctx));
+        m.potions.forEach(p => new Potion(p.x * TILE_SIZE, p.y * TILE_SIZE).render(ctx, origin));
+        if (m.swiftHalo) new SwiftHalo(m.swiftHalo.x * TILE_SIZE, m.swiftHalo.y * TILE_SIZE).render(ctx, origin);
+        m.npcSpawns.forEach(p => new Player(p.x * TILE_SIZE, p.y * TILE_SIZE, true).render(ctx, origin));
+        if (m.playerSpawn) new Player(m.playerSpawn.x * TILE_SIZE, m.playerSpawn.y * TILE_SIZE).render(ctx, origin);
+
+        ctx.restore();
+    }, [getScale, pockets]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const resize = () => {
+            const rect = canvas.getBoundingClientRect();
+            canvas.width = rect.width;
+            canvas.height = rect.height;
+            draw();
+        };
+        resize();
+        window.addEventListener('resize', resize);
+        return () => window.removeEventListener('resize', resize);
+    }, [draw]);
+
+    useEffect(() => {
+        draw();
+    }, [draw, revision]);
+
+    const toTile = (e: React.MouseEvent): MapPoint | null => {
+        const canvas = canvasRef.current!;
+        const rect = canvas.getBoundingClientRect();
+        const scale = getScale();
+        const x = Math.floor((e.clientX - rect.left) / scale / TILE_SIZE);
+        const y = Math.floor((e.clientY - rect.top) / scale / TILE_SIZE);
+        const world = worldRef.current;
+        if (x < 0 || y < 0 || x >= world.width || y >= world.height) return null;
+        return { x, y };
+    };
+
+    const applyTool = (tile: MapPoint, dragging: boolean) => {
+        const world = worldRef.current;
+        const m = world.markers;
+        const center = { x: tile.x + 0.5, y: tile.y + 0.5 };
+        const onTile = (p: MapPoint) => Math.floor(p.x) === tile.x && Math.floor(p.y) === tile.y;
+
+        if (tool.kind === 'tile') {
+            if (world.tiles[tile.x][tile.y] === tool.tile) return;
+            world.tiles[tile.x][tile.y] = tool.tile;
+            world.wallHealth[tile.x][tile.y] = 100;
+        } else {
+            // Markers are placed per click, not while dragging (except erase)
+            if (dragging && tool.marker !== 'erase') return;
+            if (tool.marker !== 'erase' && !world.isWalkable(tile.x, tile.y)) {
+                setMessage('Markers must be placed on a walkable tile');
+                return;
+            }
+            switch (tool.marker) {
+                case 'player': m.playerSpawn = center; break;
+                case 'halo': m.swiftHalo = center; break;
+                case 'npc': m.npcSpawns.push(center); break;
+                case 'potion': m.potions.push(center); break;
+                case 'loot': m.loot.push({ ...center, weapon: lootWeapon, rarity: lootRarity }); break;
+                case 'ammo': m.ammo.push({ ...center, ammoType }); break;
+                case 'throwable': m.throwables.push({ ...center, throwable }); break;
+                case 'attachment': m.attachments.push({ ...center, attachment }); break;
+                case 'erase':
+                    if (m.playerSpawn && onTile(m.playerSpawn)) m.playerSpawn = null;
+                    if (m.swiftHalo && onTile(m.swiftHalo)) m.swiftHalo = null;
+                    m.npcSpawns = m.npcSpawns.filter(p => !onTile(p));
+                    m.potions = m.potions.filter(p => !onTile(p));
+                    m.loot = m.loot.filter(p => !onTile(p));
+                    m.ammo = m.ammo.filter(p => !onTile(p));
+                    m.throwables = m.throwables.filter(p => !onTile(p));
+                    m.attachments = m.attachments.filter(p => !onTile(p));
+                    break;
+            }
+        }
+        setMessage('');
+        touch();
+    };
+
+    const onMouseDown = (e: React.MouseEvent) => {
+        const tile = toTile(e);
+        if (!tile) return;
+        paintingRef.current = true;
+        applyTool(tile, false);
+    };
+
+    const onMouseMove = (e: React.MouseEvent) => {
+        if (!paintingRef.current) return;
+        const tile = toTile(e);
+        if (tile) applyTool(tile, true);
+    };
+
+    const stopPainting = () => {
+        paintingRef.current = false;
+    };
+
+    // Same check the generator runs: everything walkable must connect to the player spawn (or center)
+    const connectivityStart = (): MapPoint => {
+        const world = worldRef.current;
+        const spawn = world.markers.playerSpawn;
+        return spawn ? { x: Math.floor(spawn.x), y: Math.floor(spawn.y) } : { x: Math.floor(world.width / 2), y: Math.floor(world.height / 2) };
+    };
+
+    const handleCheckConnectivity = () => {
+        const found = worldRef.current.findUnreachable(connectivityStart());
+        setPockets(found);
+        setMessage(found.length === 0 ? 'All walkable tiles are connected' : `${found.length} unreachable tiles highlighted`);
+    };
+
+    const handleFillPockets = () => {
+        worldRef.current.fillUnreachable(connectivityStart());
+        touch();
+        setMessage('Unreachable floor pockets walled off');
+    };
+
+    const handleExport = () => {
+        const data = worldRef.current.toData('custom-arena');
+        const url = URL.createObjectURL(new Blob([serializeMapData(data)], { type: 'application/json' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${data.name}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleCopyString = async () => {
+        try {
+            await navigator.clipboard.writeText(encodeMapString(worldRef.current.toData()));
+            setMessage('Map string copied to clipboard');
+        } catch {
+            setMessage('Clipboard unavailable');
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            replaceWorld(World.fromData(parseMapData(await file.text())));
+            setMessage(`Loaded ${file.name}`);
+        } catch (err) {
+            setMessage((err as Error).message);
+        }
+    };
+
+    const handlePlay = () => {
+        const world = worldRef.current;
+        if (!world.markers.playerSpawn) {
+            setMessage('Place a player spawn first');
+            return;
+        }
+        onPlay(world.toData('custom-arena'));
+    };
+
+    const isActive = (t: Tool) => t.kind === tool.kind &&
+        (t.kind === 'tile' ? t.tile === (tool as typeof t).tile : t.marker === (tool as typeof t).marker);
+
+    return (
+        <div className="fixed inset-0 z-[10000] flex bg-black text-white font-sans select-none">
+            {/* Palette */}
+            <div className="w-64 shrink-0 flex flex-col gap-4 p-4 bg-slate-900 border-r border-slate-700 overflow-y-auto">
+                <span className="text-slate-400 text-xs font-black tracking-widest uppercase">Tiles</span>
+                <div className="grid grid-cols-2 gap-2">
+                    {TILE_TOOLS.map(t => (
+                        <button
+                            key={t.tile}
+                            className={`${buttonClass} ${isActive({ kind: 'tile', tile: t.tile }) ? 'ring-2 ring-cyan-400' : ''}`}
+                            onClick={() => setTool({ kind: 'tile', tile: t.tile })}
+                        >
+                            <span className="inline-block w-3 h-3 mr-2 border border-slate-500 align-middle" style={{ backgroundColor: t.color }} />
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+
+                <span className="text-slate-400 text-xs font-black tracking-widest uppercase">Markers</span>
+                <div className="grid grid-cols-2 gap-2">
+                    {MARKER_TOOLS.map(t => (
+                        <button
+                            key={t.marker}
+                            className={`${buttonClass} ${isActive({ kind: 'marker', marker: t.marker }) ? 'ring-2 ring-cyan-400' : ''}`}
+                            onClick={() => setTool({ kind: 'marker', marker: t.marker })}
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+                <select
+                    className="bg-slate-800 border border-slate-600 rounded p-2 text-xs font-black uppercase"
+                    value={lootWeapon}
+                    onChange={e => setLootWeapon(e.target.value as WeaponType)}
+                >
+                    {Object.keys(WEAPONS).map(w => (
+                        <option key={w} value={w} style={{ color: WEAPONS[w].color }}>{w}</option>
+                    ))}
+                </select>
+                <select
+                    className="bg-slate-800 border border-slate-600 rounded p-2 text-xs font-black uppercase"
+                    value={lootRarity}
+                    onChange={e => setLootRarity(e.target.value as Rarity)}
+                >
+                    {Object.values(Rarity).map(r => (
+                        <option key={r} value={r} style={{ color: RARITIES[r].color }}>{r}</option>
+                    ))}
+                </select>
+                <select
+                    className="bg-slate-800 border border-slate-600 rounded p-2 text-xs font-black uppercase"
+                    value={ammoType}
+                    onChange={e => setAmmoType(e.target.value as AmmoType)}
+                >
+                    {Object.values(AmmoType).map(a => (
+                        <option key={a} value={a} style={{ color: AMMO[a].color }}>{a} Ammo</option>
+                    ))}
+                </select>
+                <select
+                    className="bg-slate-800 border border-slate-600 rounded p-2 text-xs font-black uppercase"
+                    value={throwable}
+                    onChange={e => setThrowable(e.target.value as ThrowableType)}
+                >
+                    {Object.values(ThrowableType).map(t => (
+                        <option key={t} value={t} style={{ color: THROWABLES[t].color }}>{t}</option>
+                    ))}
+                </select>
+                <select
+                    className="bg-slate-800 border border-slate-600 rounded p-2 text-xs font-black uppercase"
+                    value={attachment}
+                    onChange={e => setAttachment(e.target.value as Attachment)}
+                >
+                    {Object.values(Attachment).map(a => (
+                        <option key={a} value={a} style={{ color: ATTACHMENTS[a].color }}>{a}</option>
+                    ))}
+                </select>
+
+                <span className="text-slate-400 text-xs font-black tracking-widest uppercase">Map</span>
+                <select
+                    className="bg-slate-800 border border-slate-600 rounded p-2 text-xs font-black uppercase"
+                    value={generatorId}
+                    onChange={e => setGeneratorId(e.target.value as MapGeneratorId)}
+                >
+                    {Object.values(MAP_GENERATORS).map(g => (
+                        <option key={g.id} value={g.id}>{g.name}</option>
+                    ))}
+                </select>
+                <div className="grid grid-cols-2 gap-2">
+                    <button className={buttonClass} onClick={() => replaceWorld(new World(50, 50, { generate: false }))}>Blank</button>
+                    <button className={buttonClass} onClick={() => replaceWorld(new World(50, 50, { seed: createSeed(), generator: MAP_GENERATORS[generatorId] }))}>Generate</button>
+                    <button className={buttonClass} onClick={handleCheckConnectivity}>Check</button>
+                    <button className={buttonClass} onClick={handleFillPockets}>Fill Pockets</button>
+                    <button className={buttonClass} onClick={handleExport}>Export</button>
+                    <label className={`${buttonClass} text-center cursor-pointer`}>
+                        Import
+                        <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+                    </label>
+                    <button className={`${buttonClass} col-span-2`} onClick={handleCopyString}>Copy Map String</button>
+                </div>
+
+                <div className="mt-auto flex flex-col gap-2">
+                    {message && <span className="text-yellow-300 text-xs font-bold">{message}</span>}
+                    <button
+                        className="px-4 py-3 bg-white text-black font-black uppercase tracking-widest rounded-full hover:scale-105 active:scale-95 transition-transform"
+                        onClick={handlePlay}
+                    >
+                        Test Play
+                    </button>
+                    <button className={buttonClass} onClick={onExit}>Back to Game</button>
+                </div>
+            </div>
+
+            {/* Map */}
+            <canvas
+                ref={canvasRef}
+                className="flex-1 h-full cursor-crosshair"
+                onMouseDown={onMouseDown}
+                onMouseMove={onMouseMove}
+                onMouseUp={stopPainting}
+                onMouseLeave={stopPainting}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,170 @@
+import React, { useEffect, useRef } from 'react';
+import type { Engine } from '../game/Engine';
+import { WEAPONS } from '../game/Weapons';
+import { MinimapCell } from '../game/Minimap';
+import type { MinimapGrid } from '../game/Minimap';
+
+interface MinimapProps {
+    engineRef: React.RefObject<Engine | null>;
+    expanded: boolean; // Full-screen map instead of the corner minimap
+    toggleKey: string; // Label of the key bound to the map
+    onToggle: () => void;
+}
+
+// Same palette as World.render
+const CELL_COLORS: Record<MinimapCell, string> = {
+    [MinimapCell.OPEN]: '#555',
+    [MinimapCell.WALL]: '#1a1a1a',
+    [MinimapCell.INDESTRUCTIBLE]: '#000000',
+    [MinimapCell.HOUSE]: '#4a3c31'
+};
+
+export const Minimap: React.FC<MinimapProps> = ({ engineRef, expanded, toggleKey, onToggle }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        // Tiles live in an offscreen canvas at one pixel per cell; only cells
+        // the grid reports as changed get repainted
+        const layer = document.createElement('canvas');
+        const layerCtx = layer.getContext('2d')!;
+        let grid: MinimapGrid | null = null;
+        let frame = 0;
+
+        const paintCell = (g: MinimapGrid, i: number) => {
+            layerCtx.fillStyle = CELL_COLORS[g.cells[i] as MinimapCell];
+            layerCtx.fillRect(i % g.width, Math.floor(i / g.width), 1, 1);
+        };
+
+        const draw = () => {
+            frame = requestAnimationFrame(draw);
+            const engine = engineRef.current;
+            const canvas = canvasRef.current;
+            if (!engine || !canvas) return;
+
+            const current = engine.getMinimapGrid();
+            if (current !== grid) {
+                // New match: repaint everything
+                grid = current;
+                layer.width = grid.width;
+                layer.height = grid.height;
+                grid.takeDirty();
+                for (let i = 0; i < grid.cells.length; i++) paintCell(grid, i);
+            } else {
+                for (const i of grid.takeDirty()) paintCell(grid, i);
+            }
+
+            // Match the CSS size so the map stays crisp
+            const dpr = window.devicePixelRatio || 1;
+            const cw = Math.round(canvas.clientWidth * dpr);
+            const ch = Math.round(canvas.clientHeight * dpr);
+            if (canvas.width !== cw || canvas.height !== ch) {
+                canvas.width = cw;
+                canvas.height = ch;
+            }
+
+            const state = engine.getMinimapState();
+            const ctx = canvas.getContext('2d')!;
+            ctx.clearRect(0, 0, cw, ch);
+
+            // Fit the whole map, centered; everything below is drawn in tile units
+            const scale = Math.min(cw / state.worldWidth, ch / state.worldHeight);
+            ctx.save();
+            ctx.translate((cw - state.worldWidth * scale) / 2, (ch - state.worldHeight * scale) / 2);
+            ctx.scale(scale, scale);
+
+            ctx.imageSmoothingEnabled = false;
+            ctx.drawImage(layer, 0, 0, grid.width * grid.cellSize, grid.height * grid.cellSize);
+
+            // City House
+            const house = state.cityHouseRect;
+            ctx.strokeStyle = '#FDE047';
+            ctx.lineWidth = 2 / scale;
+            ctx.strokeRect(house.x, house.y, house.w, house.h);
+
+            // Storm
+            if (state.zone) {
+                const zone = state.zone;
+                ctx.beginPath();
+                ctx.rect(0, 0, state.worldWidth, state.worldHeight);
+                ctx.arc(zone.x, zone.y, Math.max(0, zone.radius), 0, Math.PI * 2, true);
+                ctx.fillStyle = 'rgba(124, 58, 237, 0.35)';
+                ctx.fill('evenodd');
+
+                ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+                ctx.setLineDash([4 / scale, 3 / scale]);
+                ctx.beginPath();
+                ctx.arc(zone.targetX, zone.targetY, Math.max(0, zone.targetRadius), 0, Math.PI * 2);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+
+            // Pickups the player has spotted
+            const dot = (x: number, y: number, color: string, size: number) => {
+                ctx.fillStyle = color;
+                ctx.beginPath();
+                ctx.arc(x, y, size / scale, 0, Math.PI * 2);
+                ctx.fill();
+            };
+            const dotSize = expanded ? 5 : 2.5;
+            state.loot.forEach(l => dot(l.x, l.y, WEAPONS[l.weapon].color, dotSize));
+            state.potions.forEach(p => dot(p.x, p.y, '#60A5FA', dotSize));
+            if (state.swiftHalo) dot(state.swiftHalo.x, state.swiftHalo.y, '#FDE047', dotSize * 1.4);
+
+            // Gunfire, widening as it fades
+            ctx.lineWidth = 1.5 / scale;
+            state.shots.forEach(s => {
+                ctx.strokeStyle = `rgba(239, 68, 68, ${1 - s.age})`;
+                ctx.beginPath();
+                ctx.arc(s.x, s.y, dotSize * (1 + s.age * 2) / scale, 0, Math.PI * 2);
+                ctx.stroke();
+            });
+
+            // Player arrow
+            if (!state.player.isDead) {
+                const size = (expanded ? 14 : 8) / scale;
+                ctx.translate(state.player.x, state.player.y);
+                ctx.rotate(state.player.rotation);
+                ctx.fillStyle = '#FFFFFF';
+                ctx.strokeStyle = '#000000';
+                ctx.lineWidth = 1.5 / scale;
+                ctx.beginPath();
+                ctx.moveTo(size, 0);
+                ctx.lineTo(-size * 0.6, size * 0.6);
+                ctx.lineTo(-size * 0.3, 0);
+                ctx.lineTo(-size * 0.6, -size * 0.6);
+                ctx.closePath();
+                ctx.fill();
+                ctx.stroke();
+            }
+
+            ctx.restore();
+        };
+
+        frame = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(frame);
+    }, [engineRef, expanded]);
+
+    if (expanded) {
+        return (
+            <div
+                className="fixed inset-0 z-[10000] flex flex-col items-center justify-center gap-4 bg-black/80 backdrop-blur-sm pointer-events-auto"
+                onClick={onToggle}
+            >
+                <canvas ref={canvasRef} className="w-[min(90vw,80vh)] h-[min(90vw,80vh)]" />
+                <span className="text-slate-400 text-xs font-black uppercase tracking-[0.3em]">
+                    Press <span className="text-white">{toggleKey}</span> or tap to close
+                </span>
+            </div>
+        );
+    }
+
+    return (
+        <div
+            className="fixed top-6 left-6 md:top-auto md:left-auto md:bottom-6 md:right-6 z-[9999] pointer-events-auto cursor-pointer bg-slate-900/80 p-1 rounded-lg border border-slate-700/50 backdrop-blur-sm shadow-xl"
+            onClick={onToggle}
+            title="Map (M)"
+        >
+            <canvas ref={canvasRef} className="block w-32 h-32 md:w-48 md:h-48" />
+        </div>
+    );
+};
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { formatKey, InputAction } from '../game/Input';
+import type { Settings } from '../game/Settings';
+import { SettingsPanel } from './SettingsPanel';
+
+interface PauseMenuProps {
+    settings: Settings;
+    onSettingsChange: (settings: Settings) => void;
+    onResume: () => void;
+    onRestart: () => void;
+    onQuit: () => void;
+}
+
+const buttonClass = 'w-64 px-6 py-3 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform';
+
+export const PauseMenu: React.FC<PauseMenuProps> = ({ settings, onSettingsChange, onResume, onRestart, onQuit }) => {
+    const [showSettings, setShowSettings] = useState(false);
+
+    return (
+        <div className="fixed inset-0 z-[10001] flex flex-col items-center justify-center gap-4 bg-black/70 backdrop-blur-md pointer-events-auto">
+            <h1 className="text-6xl font-black italic text-white tracking-wider mb-6 drop-shadow-[0_0_30px_rgba(255,255,255,0.4)]">
+                PAUSED
+            </h1>
+
+            {showSettings ? (
+                <SettingsPanel settings={settings} onSettingsChange={onSettingsChange} onBack={() => setShowSettings(false)} />
+            ) : (
+                <>
+                    <button className={buttonClass} onClick={onResume}>Resume</button>
+                    <button className={buttonClass} onClick={onRestart}>Restart</button>
+                    <button className={buttonClass} onClick={() => setShowSettings(true)}>Settings</button>
+                    <button className={buttonClass} onClick={onQuit}>Quit</button>
+                    <span className="mt-4 text-slate-400 text-xs font-black uppercase tracking-[0.3em]">
+                        Press <span className="text-white">{settings.bindings[InputAction.Pause].map(formatKey).join(' / ')}</span> to resume
+                    </span>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import type { Engine, ReplayState } from '../game/Engine';
+import { TICK_RATE } from '../game/Simulation';
+
+interface ReplayControlsProps {
+    engineRef: React.RefObject<Engine | null>;
+    state: ReplayState;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const buttonClass = 'px-3 py-2 bg-slate-800 text-white font-black text-xs uppercase tracking-widest rounded border border-slate-600 hover:bg-slate-700 active:scale-95 transition-transform';
+
+const formatTicks = (ticks: number) => {
+    const seconds = Math.floor(ticks / TICK_RATE);
+    return `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ engineRef, state }) => {
+    return (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[10000] pointer-events-auto w-[min(90vw,720px)] bg-slate-900/90 p-3 rounded-lg border border-slate-700/50 backdrop-blur-sm shadow-xl flex flex-col gap-2">
+            <div className="flex items-center gap-3">
+                <span className="text-red-500 text-[10px] font-black uppercase tracking-[0.2em]">Replay</span>
+                <input
+                    type="range"
+                    min={0}
+                    max={state.length}
+                    value={state.tick}
+                    onChange={(e) => engineRef.current?.seekReplay(Number(e.target.value))}
+                    className="flex-1 accent-red-500"
+                />
+                <span className="text-white text-xs font-black font-mono tabular-nums">
+                    {formatTicks(state.tick)} / {formatTicks(state.length)}
+                </span>
+            </div>
+            <div className="flex items-center gap-2 flex-wrap">
+                <button className={buttonClass} onClick={() => engineRef.current?.setReplayPaused(!state.paused)}>
+                    {state.paused ? 'Play' : 'Pause'}
+                </button>
+                <select
+                    value={state.speed}
+                    onChange={(e) => engineRef.current?.setReplaySpeed(Number(e.target.value))}
+                    className="bg-slate-800 text-white text-xs font-black border border-slate-600 rounded px-2 py-2"
+                >
+                    {SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+                </select>
+                <button
+                    className={`${buttonClass} ${state.freeCamera ? 'bg-red-600 hover:bg-red-500' : ''}`}
+                    onClick={() => engineRef.current?.setFreeCamera(!state.freeCamera)}
+                    title="Move the camera with WASD"
+                >
+                    Free Camera
+                </button>
+                {state.desynced && (
+                    <span className="text-amber-400 text-[10px] font-black uppercase tracking-widest">Out of sync</span>
+                )}
+                <button className={`${buttonClass} ml-auto`} onClick={() => engineRef.current?.exitReplay()}>
+                    Exit Replay
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { bindKey, browserGamepads, DEFAULT_BINDINGS, firstGamepad, formatKey, INPUT_ACTION_LABELS, InputAction, isGamepadButtonHeld } from '../game/Input';
+import { TouchScheme } from '../game/Settings';
+import type { Settings } from '../game/Settings';
+
+interface SettingsPanelProps {
+    settings: Settings;
+    onSettingsChange: (settings: Settings) => void;
+    onBack: () => void;
+}
+
+// Which action/slot is waiting for a key
+interface Capture {
+    action: InputAction;
+    slot: number;
+}
+
+const MAX_BINDINGS_PER_ACTION = 3;
+
+const buttonClass = 'w-64 px-6 py-3 bg-slate-900/80 text-white font-black text-sm uppercase tracking-widest rounded-full border border-slate-600 hover:scale-105 active:scale-95 transition-transform';
+const keyClass = 'w-20 px-2 py-1 rounded border text-xs font-black tracking-normal';
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettingsChange, onBack }) => {
+    const [capture, setCapture] = useState<Capture | null>(null);
+
+    useEffect(() => {
+        if (!capture) return;
+        const bind = (code: string) => {
+            setCapture(null);
+            if (code === 'Escape') return; // Cancel
+            onSettingsChange({ ...settings, bindings: bindKey(settings.bindings, capture.action, code, capture.slot) });
+        };
+        // Capture phase, so the game never sees the key being bound
+        const onKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopImmediatePropagation();
+            bind(e.code);
+        };
+        const onMouseDown = (e: MouseEvent) => {
+            e.preventDefault();
+            e.stopImmediatePropagation();
+            bind(`Mouse${e.button}`);
+        };
+        const onWheel = (e: WheelEvent) => {
+            if (e.deltaY === 0) return;
+            e.preventDefault();
+            e.stopImmediatePropagation();
+            bind(e.deltaY > 0 ? 'WheelDown' : 'WheelUp');
+        };
+        window.addEventListener('keydown', onKeyDown, true);
+        window.addEventListener('mousedown', onMouseDown, true);
+        window.addEventListener('wheel', onWheel, { capture: true, passive: false });
+
+        // Gamepad buttons have no events: watch for one that wasn't already held
+        const heldAtStart = new Set(firstGamepad(browserGamepads)?.buttons.flatMap((b, i) => isGamepadButtonHeld(b) ? [i] : []));
+        let frame = requestAnimationFrame(function watchPad() {
+            const index = firstGamepad(browserGamepads)?.buttons.findIndex((b, i) => isGamepadButtonHeld(b) && !heldAtStart.has(i)) ?? -1;
+            if (index !== -1) bind(`Pad${index}`); else frame = requestAnimationFrame(watchPad);
+        });
+        return () => {
+            window.removeEventListener('keydown', onKeyDown, true);
+            window.removeEventListener('mousedown', onMouseDown, true);
+            window.removeEventListener('wheel', onWheel, true);
+            cancelAnimationFrame(frame);
+        };
+    }, [capture, settings, onSettingsChange]);
+
+    return (
+        <>
+            <label className="w-64 flex flex-col gap-2 text-slate-400 text-xs font-black uppercase tracking-[0.3em]">
+                <span className="flex justify-between">
+                    Volume <span className="text-white tracking-normal">{Math.round(settings.volume * 100)}%</span>
+                </span>
+                <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(settings.volume * 100)}
+                    onChange={(e) => onSettingsChange({ ...settings, volume: Number(e.target.value) / 100 })}
+                    className="accent-white"
+                />
+            </label>
+
+            <label className="w-64 flex flex-col gap-2 text-slate-400 text-xs font-black uppercase tracking-[0.3em]">
+                Touch Controls
+                <select
+                    value={settings.touchScheme}
+                    onChange={(e) => onSettingsChange({ ...settings, touchScheme: e.target.value as TouchScheme })}
+                    className="bg-slate-900/80 text-white text-sm border border-slate-600 rounded px-2 py-1 tracking-normal"
+                >
+                    <option value={TouchScheme.TAP}>Tap to shoot</option>
+                    <option value={TouchScheme.TWIN_STICK}>Twin stick</option>
+                </select>
+            </label>
+            <label className="w-64 flex items-center justify-between text-slate-400 text-xs font-black uppercase tracking-[0.3em]">
+                Aim Assist
+                <input
+                    type="checkbox"
+                    checked={settings.aimAssist}
+                    onChange={(e) => onSettingsChange({ ...settings, aimAssist: e.target.checked })}
+                    className="accent-white w-4 h-4"
+                />
+            </label>
+
+            <div className="w-96 max-h-[45vh] overflow-y-auto flex flex-col gap-1 bg-slate-900/60 p-3 rounded-lg border border-slate-700/50">
+                <span className="text-slate-400 text-xs font-black uppercase tracking-[0.3em] mb-1">Controls</span>
+                {Object.values(InputAction).map(action => (
+                    <div key={action} className="flex items-center gap-2">
+                        <span className="flex-1 text-white text-xs font-black uppercase tracking-widest">{INPUT_ACTION_LABELS[action]}</span>
+                        {Array.from({ length: MAX_BINDINGS_PER_ACTION }, (_, slot) => {
+                            const waiting = capture?.action === action && capture.slot === slot;
+                            const code = settings.bindings[action][slot];
+                            return (
+                                <button
+                                    key={slot}
+                                    onClick={() => setCapture({ action, slot })}
+                                    className={`${keyClass} ${waiting ? 'text-black bg-white border-white' : 'text-white border-slate-600 hover:bg-slate-700'}`}
+                                >
+                                    {waiting ? '...' : code ? formatKey(code) : '—'}
+                                </button>
+                            );
+                        })}
+                    </div>
+                ))}
+                <span className="text-slate-500 text-[10px] font-black uppercase tracking-widest mt-1">
+                    Click a slot, then press a key, button or scroll (Esc cancels)
+                </span>
+            </div>
+
+            <button className={buttonClass} onClick={() => onSettingsChange({ ...settings, bindings: DEFAULT_BINDINGS })}>Reset Controls</button>
+            <button className={buttonClass} onClick={onBack}>Back</button>
+        </>
+    );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import type { WeaponSlotState } from '../game/Engine';
+import { ATTACHMENTS, RARITIES, WEAPONS } from '../game/Weapons';
+
+interface WeaponSlotsProps {
+    slots: (WeaponSlotState | null)[];
+    activeSlot: number;
+    slotKeys?: string[]; // Key labels shown on each slot
+    onSelect?: (slot: number) => void; // Tap to switch (touch screens)
+}
+
+export const WeaponSlots: React.FC<WeaponSlotsProps> = ({ slots, activeSlot, slotKeys, onSelect }) => {
+    return (
+        <div className="flex gap-2">
+            {slots.map((slot, i) => (
+                <button
+                    key={i}
+                    onClick={() => onSelect?.(i)}
+                    disabled={!onSelect}
+                    className={`w-24 flex flex-col items-start px-2 py-1 rounded border backdrop-blur-sm text-left ${i === activeSlot ? 'bg-slate-800/90 border-white/70' : 'bg-slate-900/70 border-slate-700/50 opacity-70'}`}
+                    style={slot ? { borderColor: RARITIES[slot.rarity].color } : undefined}
+                >
+                    <span className="flex w-full justify-between text-[10px] font-black text-slate-400">
+                        <span>{slotKeys?.[i] ?? i + 1}</span>
+                        {slot && <span className={slot.ammo === 0 ? 'text-red-500' : ''}>{slot.ammo}/{slot.reserveAmmo}</span>}
+                    </span>
+                    <span
+                        className="text-xs font-black uppercase tracking-wider truncate w-full"
+                        style={{ color: slot ? WEAPONS[slot.weapon].color : '#64748b' }}
+                    >
+                        {slot ? slot.weapon : 'Empty'}
+                    </span>
+                    {slot && slot.attachments.length > 0 && (
+                        <span className="flex gap-1 text-[9px] font-black">
+                            {slot.attachments.map(a => (
+                                <span key={a} style={{ color: ATTACHMENTS[a].color }}>{ATTACHMENTS[a].short}</span>
+                            ))}
+                        </span>
+                    )}
+                </button>
+            ))}
+        </div>
+    );
+};
@@ -1,11 +1,52 @@
-import { World, TILE_SIZE, TileType } from './World';
-import { Player, Bullet, Loot, WEAPONS, WeaponType, Explosion, Particle, Potion, SwiftHalo } from './Entities';
-import { Input } from './Input';
+import type { Vector2 } from './types';
+import { TILE_SIZE } from './World';
+import { slotStats, THROW_RANGE } from './Entities';
+import type { Player, Bullet, Grenade, Loot, Potion, SwiftHalo } from './Entities';
+import { THROWABLES, WEAPONS, WeaponSound } from './Weapons';
+import type { Attachment, Rarity, ThrowableType, WeaponType } from './Weapons';
+import { browserGamepads, Input, InputAction, SLOT_ACTIONS } from './Input';
+import type { Bindings, GamepadSource } from './Input';
+import { createSeed } from './Random';
+import type { MapData } from './MapData';
+import type { MapGeneratorId } from './MapGenerators';
+import { DEFAULT_MATCH_CONFIG } from './MatchConfig';
+import type { MatchConfig } from './MatchConfig';
+import type { ZoneState } from './SafeZone';
+import { Visibility } from './Visibility';
+import { MinimapGrid } from './Minimap';
+import type { MinimapState } from './Minimap';
+import { Simulation, FIXED_DT } from './Simulation';
+import type { PlayerCommand, SimulationEvent } from './Simulation';
+import { ReplayRecorder, ReplayPlayback } from './Replay';
+import type { Replay } from './Replay';
+
+const MAX_STEPS_PER_FRAME = 5; // After a stall, drop the backlog instead of fast-forwarding
+
+// Slow motion / fast forward for the live match
+const MIN_TIME_SCALE = 0.1;
+const MAX_TIME_SCALE = 4;
+
+// Replay viewer
+const MIN_REPLAY_SPEED = 0.25;
+const MAX_REPLAY_SPEED = 4;
+const FREE_CAMERA_SPEED = 900; // px/s
+
+// Touch aim stick: fires once pushed past this fraction of its radius
+const AIM_STICK_FIRE_THRESHOLD = 0.6;
+// Aim assist snaps onto a visible enemy this close to the stick direction
+const AIM_ASSIST_CONE = 0.2; // radians
+const AIM_ASSIST_RANGE = 800; // px
+
+// Larger maps get downsampled so the minimap grid stays around this many cells across
+const MINIMAP_MAX_CELLS = 64;
+// How long someone else's gunfire stays marked on the map
+const SHOT_PING_TIME = 2; // seconds
 
 export const GameState = {
     COUNTDOWN: 0,
     PLAYING: 1,
-    GAME_OVER: 2
+    GAME_OVER: 2,
+    PAUSED: 3
 } as const;
 
 export type GameState = typeof GameState[keyof typeof GameState];
@@ -17,43 +58,88 @@ export interface UIState {
     maxShield: number;
     ammo: number;
     maxAmmo: number;
+    reserveAmmo: number; // Spare rounds for the weapon in hand
     weapon: string | null;
+    weaponRarity: Rarity | null;
+    weaponAttachments: Attachment[];
+    slots: (WeaponSlotState | null)[];
+    activeSlot: number;
+    isSwapping: boolean;
+    lootInReach: WeaponType | null; // What an interact would pick up or swap for
+    throwable: ThrowableType | null;
+    throwableCount: number;
+    cookProgress: number | null; // Share of the fuse burnt while cooking, null otherwise
     isReloading: boolean;
     dashCooldown: number;
     dashReady: boolean;
     dashTimeRemaining: number;
     aliveCount: number;
     elapsedTime: number;
+    seed: number;
+    mapGenerator: MapGeneratorId;
+    zoneState: ZoneState;
+    zonePhase: number; // 1-based
+    zoneTimeRemaining: number; // Seconds until the storm moves / stops moving
+    zoneDistance: number; // Tiles to the safe edge (0 when inside)
+    replay: ReplayState | null; // Set while watching a replay
 }
 
+export interface WeaponSlotState {
+    weapon: WeaponType;
+    ammo: number;
+    maxAmmo: number;
+    reserveAmmo: number;
+    rarity: Rarity;
+    attachments: Attachment[];
+}
 
+export interface ReplayState {
+    tick: number;
+    length: number; // Ticks
+    paused: boolean;
+    speed: number;
+    freeCamera: boolean;
+    desynced: boolean; // Playback diverged from the recording
+}
 
+
+
+// Browser front-end: turns keyboard/mouse/touch into PlayerCommands for the
+// Simulation, and draws and plays sound for whatever it does
 export class Engine {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
-    private world: World;
-    public player: Player; // Public for App.tsx access if needed, but getUIState is better
-    private npcs: Player[] = [];
-    private bullets: Bullet[] = [];
-    private loot: Loot[] = [];
-    private potions: Potion[] = [];
-    private swiftHalo: SwiftHalo | null = null;
-    private explosions: Explosion[] = [];
-    private particles: Particle[] = [];
+    public simulation: Simulation; // The live match, or the replay being watched
+    private liveSimulation: Simulation;
+    private recorder: ReplayRecorder; // Records the live match
+    private playback: ReplayPlayback | null = null;
+    private replayPaused: boolean = false;
+    private replaySpeed: number = 1;
+    private freeCamera: boolean = false; // Replay camera detached from the player
+    private muted: boolean = false; // Silences events while seeking
+    private visibility: Visibility; // What the player can currently see
+    private minimap: MinimapGrid;
+    private spotted: WeakSet<Loot | Potion | SwiftHalo>; // Pickups the player has seen (shown on the map)
+    private shotPings: { x: number, y: number, time: number }[] = []; // Unsuppressed gunfire heard, by sim time
     private input: Input;
     private lastTime: number = 0;
+    private accumulator: number = 0; // Unsimulated time carried into the next frame
     private camera: { x: number, y: number } = { x: 0, y: 0 };
     private viewW: number;
     private viewH: number;
     private zoom: number = 1; // Default Zoom
+    private screenZoom: number = 1; // Zoom for the screen size, before any scope
     public isMobile: boolean = false; // Mobile Detection
     private touchShootTarget: { x: number, y: number } | null = null; // For Mobile Auto-Fire
+    private queuedDash: boolean = false; // Dash button pressed since the last tick
+    private queuedInteract: boolean = false;
+    private queuedSlot: number | null = null; // HUD slot tapped since the last tick
+    private queuedShotAim: number | null = null; // Single tap-to-shoot since the last tick
+    private throwHeld: boolean = false; // Touch throw button
+    private aimStick: { x: number, y: number } | null = null; // Twin-stick touch aim, up is +y
+    private aimAssist: boolean = true;
     private animationId: number | null = null;
 
-    // Stopwatch
-    private gameStartTime: number = 0;
-    private gameEndTime: number | null = null;
-
     public onGameStateChange?: (state: GameState) => void;
     public onWinner?: (winner: string) => void;
     public onKill?: () => void; // Kill Callback
@@ -61,42 +147,50 @@ export class Engine {
 
 
     private audioCtx: AudioContext | null = null;
+    private masterGain: GainNode | null = null; // Every sound goes through this (volume)
+    private volume: number = 1;
     private lastFootstepTime: number = 0;
 
-    constructor(canvas: HTMLCanvasElement) {
+    private onResize = () => this.resize();
+    // Don't let the match carry on in a background tab
+    private onVisibilityChange = () => {
+        if (document.hidden) this.pause();
+    };
+
+    constructor(canvas: HTMLCanvasElement, config: MatchConfig = DEFAULT_MATCH_CONFIG, getGamepads: GamepadSource = browserGamepads) {
         this.canvas = canvas;
         this.ctx = this.canvas.getContext('2d')!;
-        this.resize();
-        window.addEventListener('resize', () => this.resize());
+        this.input = new Input(getGamepads);
+        // Pause answers straight away, even while no ticks run
+        this.input.onPress = (code) => {
+            if (this.input.matches(InputAction.Pause, code)) this.togglePause();
+        };
+
+        this.simulation = new Simulation(config);
+        this.simulation.onEvent = (event) => this.handleEvent(event);
+        this.liveSimulation = this.simulation;
 
-        this.input = new Input(); // Fixed: No arguments
-        this.world = new World(50, 50); // 50x50 tiles
         this.viewW = this.canvas.width;
         this.viewH = this.canvas.height;
         this.resize(); // Will overwrite with zoomed values
+        this.simulation.isMobile = this.isMobile;
+        this.recorder = new ReplayRecorder(this.simulation);
+        window.addEventListener('resize', this.onResize);
+        document.addEventListener('visibilitychange', this.onVisibilityChange);
+
+        this.minimap = this.createMinimap();
+        this.visibility = new Visibility(this.simulation.world.width, this.simulation.world.height);
+        this.spotted = new WeakSet();
+        this.followPlayer();
+    }
 
-        // Spawn Player in Safe Zone
-        this.player = new Player(5 * TILE_SIZE + TILE_SIZE / 2, 5 * TILE_SIZE + TILE_SIZE / 2);
-
-        // Give Starting Weapon (None - Unarmed)
-        this.player.weapon = null;
-        this.player.currentAmmo = 0;
-        this.player.maxAmmo = 0;
-
-        // Initial Loot
-        this.spawnLoot();
-        this.spawnPotions();
-        this.spawnSwiftHalo();
-
-        // Initial NPCs
-        this.spawnNPCs(15);
+    public get seed(): number {
+        return this.simulation.seed;
     }
 
     public start() {
         if (!this.animationId) {
             this.lastTime = performance.now();
-            this.gameStartTime = this.lastTime;
-            this.gameEndTime = null;
             this.loop(this.lastTime);
             if (this.onGameStateChange) this.onGameStateChange(GameState.PLAYING);
         }
@@ -107,27 +201,100 @@ export class Engine {
             cancelAnimationFrame(this.animationId);
             this.animationId = null;
         }
+        window.removeEventListener('resize', this.onResize);
+        document.removeEventListener('visibilitychange', this.onVisibilityChange);
+        this.input.dispose();
+        if (this.audioCtx) {
+            this.audioCtx.close();
+            this.audioCtx = null;
+            this.masterGain = null;
+        }
     }
 
     public getUIState(): UIState {
-        const now = performance.now() / 1000;
-        const dashReady = now - this.player.lastDashTime >= this.player.dashCooldown;
-        const dashTimeRemaining = Math.max(0, this.player.dashCooldown - (now - this.player.lastDashTime));
+        const { player, npcs, zone } = this.simulation;
+        const now = this.simulation.clock.now;
+        const dashReady = now - player.lastDashTime >= player.dashCooldown;
+        const dashTimeRemaining = Math.max(0, player.dashCooldown - (now - player.lastDashTime));
+        const held = player.slots[player.activeSlot];
 
         return {
-            health: this.player.health,
-            maxHealth: this.player.maxHealth,
-            shield: this.player.shield,
-            maxShield: this.player.maxShield,
-            ammo: this.player.currentAmmo,
-            maxAmmo: this.player.maxAmmo,
-            weapon: this.player.weapon,
-            isReloading: this.player.isReloading,
-            dashCooldown: this.player.dashCooldown,
+            health: player.health,
+            maxHealth: player.maxHealth,
+            shield: player.shield,
+            maxShield: player.maxShield,
+            ammo: player.currentAmmo,
+            maxAmmo: player.maxAmmo,
+            reserveAmmo: player.reserve,
+            weapon: player.weapon,
+            weaponRarity: held?.rarity ?? null,
+            weaponAttachments: held?.attachments ?? [],
+            slots: player.slots.map(s => s && {
+                weapon: s.weapon,
+                ammo: s.ammo,
+                maxAmmo: slotStats(s).magSize,
+                reserveAmmo: player.reserveAmmo[WEAPONS[s.weapon].ammoType],
+                rarity: s.rarity,
+                attachments: s.attachments
+            }),
+            activeSlot: player.activeSlot,
+            isSwapping: player.isSwapping,
+            lootInReach: this.simulation.lootInReach(player)?.weapon ?? null,
+            throwable: player.throwable,
+            throwableCount: player.throwableCount,
+            cookProgress: player.cookTime !== null && player.throwable ? Math.min(1, player.cookTime / THROWABLES[player.throwable].fuse) : null,
+            isReloading: player.isReloading,
+            dashCooldown: player.dashCooldown,
             dashReady: dashReady,
             dashTimeRemaining: dashTimeRemaining,
-            aliveCount: this.npcs.length + (this.player.isDead ? 0 : 1),
-            elapsedTime: this.gameEndTime ? (this.gameEndTime - this.gameStartTime) : (performance.now() - this.gameStartTime)
+            aliveCount: npcs.length + (player.isDead ? 0 : 1),
+            elapsedTime: this.simulation.elapsedTime,
+            seed: this.simulation.seed,
+            mapGenerator: this.simulation.mapGenerator,
+            zoneState: zone.state,
+            zonePhase: zone.phaseIndex + 1,
+            zoneTimeRemaining: Math.max(0, zone.phaseTimer),
+            zoneDistance: zone.distanceOutside(player.position) / TILE_SIZE,
+            replay: this.playback ? {
+                tick: this.playback.tick,
+                length: this.playback.length,
+                paused: this.replayPaused,
+                speed: this.replaySpeed,
+                freeCamera: this.freeCamera,
+                desynced: this.playback.desynced
+            } : null
+        };
+    }
+
+    // Static layout for the minimap; a new grid is created each match
+    public getMinimapGrid(): MinimapGrid {
+        return this.minimap;
+    }
+
+    public getMinimapState(): MinimapState {
+        const { world, player, loot, potions, swiftHalo, zone } = this.simulation;
+        // Replays show everything
+        const known = (item: Loot | Potion | SwiftHalo) => item.active && (this.playback !== null || this.spotted.has(item));
+        const toTiles = (p: Vector2) => ({ x: p.x / TILE_SIZE, y: p.y / TILE_SIZE });
+        const now = this.simulation.clock.now;
+        // Seeking back in a replay leaves pings from the future
+        this.shotPings = this.shotPings.filter(s => s.time <= now && now - s.time < SHOT_PING_TIME);
+        return {
+            worldWidth: world.width,
+            worldHeight: world.height,
+            player: { ...toTiles(player.position), rotation: player.rotation, isDead: player.isDead },
+            cityHouseRect: { ...world.cityHouseRect },
+            loot: loot.filter(known).map(l => ({ ...toTiles(l.position), weapon: l.weapon })),
+            potions: potions.filter(known).map(p => toTiles(p.position)),
+            swiftHalo: swiftHalo && known(swiftHalo) ? toTiles(swiftHalo.position) : null,
+            shots: this.shotPings.map(s => ({ ...toTiles(s), age: (now - s.time) / SHOT_PING_TIME })),
+            zone: {
+                ...toTiles(zone.center),
+                radius: zone.radius / TILE_SIZE,
+                targetX: zone.targetCenter.x / TILE_SIZE,
+                targetY: zone.targetCenter.y / TILE_SIZE,
+                targetRadius: zone.targetRadius / TILE_SIZE
+            }
         };
     }
 
@@ -147,37 +314,40 @@ export class Engine {
         }
     }
 
+    public setAimStick(x: number, y: number) {
+        this.aimStick = x === 0 && y === 0 ? null : { x, y };
+    }
+
+    public setAimAssist(enabled: boolean) {
+        this.aimAssist = enabled;
+    }
+
     public triggerDash() {
-        if (this.player.dash()) {
-            this.spawnDashParticles(this.player);
-        }
+        this.queuedDash = true;
+    }
+
+    public triggerInteract() {
+        this.queuedInteract = true;
+    }
+
+    public selectSlot(slot: number) {
+        this.queuedSlot = slot;
+    }
+
+    // Held like the key: cooks while down, throws on release
+    public setThrowHeld(held: boolean) {
+        this.throwHeld = held;
     }
 
     public handleTouchShoot(clientX: number, clientY: number) {
-        // Calculate world position from screen tap (Account for Zoom and Canvas Offset)
-        const rect = this.canvas.getBoundingClientRect();
-        const canvasX = clientX - rect.left;
-        const canvasY = clientY - rect.top;
-
-        // Apply Zoom and Camera
-        const worldX = (canvasX / this.zoom) + this.camera.x;
-        const worldY = (canvasY / this.zoom) + this.camera.y;
-
-        // Aim at tap
-        const dx = worldX - this.player.position.x;
-        const dy = worldY - this.player.position.y;
-        this.player.rotation = Math.atan2(dy, dx);
-
-        // Shoot
-        const newBullets = this.player.shoot();
-        if (newBullets) {
-            this.bullets.push(...newBullets);
-        }
+        // Aim at tap; the shot goes out on the next tick
+        this.queuedShotAim = this.aimAtScreenPoint(clientX, clientY);
     }
 
-    public triggerRestart() {
-        if (this.player.isDead || this.npcs.length === 0) {
-            this.reset();
+    // Pass a seed to replay a specific map, otherwise a fresh one is rolled
+    public triggerRestart(seed?: number) {
+        if (!this.playback && this.simulation.isOver) {
+            this.reset(seed);
         }
     }
 
@@ -187,494 +357,457 @@ export class Engine {
 
         // Mobile Zoom Logic (Zoom out 20% on small screens)
         if (window.innerWidth < 768) {
-            this.zoom = 0.8;
+            this.screenZoom = 0.8;
             this.isMobile = true;
         } else {
-            this.zoom = 1;
+            this.screenZoom = 1;
             this.isMobile = false;
         }
+        this.updateZoom();
+    }
 
+    // A scope on the gun in hand pulls the camera back
+    private updateZoom() {
+        this.zoom = this.screenZoom * (this.simulation.player.stats?.zoom ?? 1);
         this.viewW = this.canvas.width / this.zoom;
         this.viewH = this.canvas.height / this.zoom;
     }
 
-    private spawnLoot() {
-        for (let i = 0; i < 18; i++) {
-            const pos = this.findValidSpawnPosition([], 0);
-            if (pos) {
-                const weapons = Object.values(WeaponType);
-                const weapon = weapons[Math.floor(Math.random() * weapons.length)];
-                this.loot.push(new Loot(pos.x, pos.y, weapon));
-            }
-        }
+    // Takes effect on the next restart
+    public setMapGenerator(id: MapGeneratorId) {
+        this.liveSimulation.setMapGenerator(id);
     }
 
-    private spawnPotions() {
-        for (let i = 0; i < 4; i++) {
-            const pos = this.findValidSpawnPosition([], 0);
-            if (pos) {
-                this.potions.push(new Potion(pos.x, pos.y));
-            }
-        }
+    // Kept in sync with destroyed walls
+    private createMinimap(): MinimapGrid {
+        const world = this.simulation.world;
+        const cellSize = Math.max(1, Math.ceil(Math.max(world.width, world.height) / MINIMAP_MAX_CELLS));
+        const minimap = new MinimapGrid(world, cellSize);
+        world.onTileChanged = (x, y) => minimap.updateTile(x, y);
+        return minimap;
     }
 
-    private spawnSwiftHalo() {
-        // Spawn in City Center
-        const rect = this.world.cityHouseRect;
-        // Center of the house
-        const x = (rect.x + rect.w / 2) * TILE_SIZE;
-        const y = (rect.y + rect.h / 2) * TILE_SIZE;
-        this.swiftHalo = new SwiftHalo(x, y);
+    // Load a handcrafted arena (or null to go back to generated maps) and restart on it
+    public loadMap(data: MapData | null) {
+        this.leaveReplay();
+        this.simulation.loadMap(data);
+        this.onMatchStart();
     }
 
-    private spawnNPCs(count: number) {
-        for (let i = 0; i < count; i++) {
-            // Avoid existing NPCs and Player
-            const avoid = [this.player, ...this.npcs];
-            const pos = this.findValidSpawnPosition(avoid, 5 * TILE_SIZE); // 5 tiles distance
-            if (pos) {
-                const npc = new Player(pos.x, pos.y, true);
-                // NPCs start unarmed
-                npc.weapon = null;
-                npc.currentAmmo = 0;
-                npc.maxAmmo = 0;
-                this.npcs.push(npc);
-            }
+    public exportMap(name?: string): MapData {
+        return this.simulation.exportMap(name);
+    }
+
+    // A fixed seed in the match config replays the same map every time
+    private reset(seed: number = this.simulation.config.seed ?? createSeed()) {
+        this.simulation.reset(seed);
+        this.onMatchStart();
+    }
+
+    // Fresh world: rebuild everything derived from it
+    private onMatchStart() {
+        this.rebuildViews();
+        this.setPaused(false);
+        if (!this.playback) {
+            // Fixed for the whole match (bots aim by it), so the recording
+            // never has to follow a window being resized
+            this.simulation.isMobile = this.isMobile;
+            this.recorder.dispose();
+            this.recorder = new ReplayRecorder(this.simulation);
         }
+        if (this.onGameStateChange) this.onGameStateChange(GameState.PLAYING);
     }
 
-    private findValidSpawnPosition(avoidEntities: { position: { x: number, y: number } }[] = [], minDist: number = 0): { x: number, y: number } | null {
-        for (let i = 0; i < 100; i++) {
-            const x = Math.floor(Math.random() * this.world.width);
-            const y = Math.floor(Math.random() * this.world.height);
+    private rebuildViews() {
+        const world = this.simulation.world;
+        this.minimap = this.createMinimap();
+        this.visibility = new Visibility(world.width, world.height);
+        this.spotted = new WeakSet();
+        this.shotPings = [];
+        this.followPlayer();
+    }
 
-            // Check Wall
-            if (this.world.getTile(x, y) !== TileType.FLOOR) continue;
+    // Freezes the match clock; nothing moves until it is resumed
+    private setPaused(paused: boolean) {
+        this.liveSimulation.clock.paused = paused;
+        this.accumulator = 0;
+        this.input.endTick(); // Presses made in the menu shouldn't reach the match
+    }
 
-            const worldX = x * TILE_SIZE + TILE_SIZE / 2;
-            const worldY = y * TILE_SIZE + TILE_SIZE / 2;
+    public get isPaused(): boolean {
+        return this.liveSimulation.clock.paused;
+    }
 
-            // Check Distance
-            let valid = true;
-            for (const entity of avoidEntities) {
-                const dist = Math.sqrt((worldX - entity.position.x) ** 2 + (worldY - entity.position.y) ** 2);
-                if (dist < minDist) {
-                    valid = false;
-                    break;
-                }
-            }
+    // Pause menu: only a live match in progress can be paused
+    public pause() {
+        if (this.playback || this.simulation.isOver || this.isPaused) return;
+        this.setPaused(true);
+        if (this.audioCtx) this.audioCtx.suspend();
+        if (this.onGameStateChange) this.onGameStateChange(GameState.PAUSED);
+    }
 
-            if (valid) {
-                return { x: worldX, y: worldY };
-            }
-        }
-        return null;
-    }
-
-    private reset() {
-        this.world = new World(50, 50);
-        this.player = new Player(5 * TILE_SIZE + TILE_SIZE / 2, 5 * TILE_SIZE + TILE_SIZE / 2);
-
-        // Reset with No Weapon
-        this.player.weapon = null;
-        this.player.currentAmmo = 0;
-        this.player.maxAmmo = 0;
-
-        this.npcs = [];
-        this.bullets = [];
-        this.loot = [];
-        this.potions = [];
-        this.explosions = [];
-        this.particles = [];
-        this.spawnLoot();
-        this.spawnLoot();
-        this.spawnPotions();
-        this.spawnSwiftHalo();
-        this.spawnNPCs(15);
-        this.gameStartTime = performance.now();
-        this.gameEndTime = null;
+    public resume() {
+        if (!this.isPaused) return;
+        this.setPaused(false);
+        if (this.audioCtx) this.audioCtx.resume();
         if (this.onGameStateChange) this.onGameStateChange(GameState.PLAYING);
     }
 
-    private loop(time: number) {
-        const dt = (time - this.lastTime) / 1000;
-        this.lastTime = time;
+    public togglePause() {
+        if (this.isPaused) this.resume(); else this.pause();
+    }
 
-        this.update(dt);
-        this.render();
+    // New match straight from the pause menu
+    public restart() {
+        if (this.playback) return;
+        if (this.audioCtx) this.audioCtx.resume();
+        this.reset();
+    }
 
-        this.animationId = requestAnimationFrame((t) => this.loop(t));
+    public setBindings(bindings: Bindings) {
+        this.input.bindings = bindings;
     }
 
-    private update(dt: number) {
-        // Global Restart (R) - Works in Game Over or Victory
-        if (this.input.keys['KeyR']) {
-            if (this.player.isDead || this.npcs.length === 0) {
-                this.reset();
-                return;
-            }
-        }
+    // 0..1
+    public setVolume(volume: number) {
+        this.volume = Math.max(0, Math.min(1, volume));
+        if (this.masterGain) this.masterGain.gain.value = this.volume;
+    }
 
-        if (this.player.isDead) {
-            return;
-        }
+    public setTimeScale(scale: number) {
+        this.liveSimulation.clock.timeScale = Math.max(MIN_TIME_SCALE, Math.min(MAX_TIME_SCALE, scale));
+    }
 
-        // Player Input
-        // Reload
-        if (this.input.keys['KeyR']) {
-            this.player.reload();
-        }
-        // Dash
-        if (this.input.keys['Space']) {
-            if (this.player.dash()) {
-                this.spawnDashParticles(this.player);
-            }
-        }
+    // The match so far (the whole match once it is over)
+    public exportReplay(): Replay {
+        return this.recorder.toReplay();
+    }
 
-        // Drop Weapon (Q)
-        if (this.input.keys['KeyQ'] && !this.player.dropRequested) {
-            this.player.dropRequested = true;
-            if (this.player.weapon) {
-                // Throw forward
-                const throwDist = 50;
-                const dropX = this.player.position.x + Math.cos(this.player.rotation) * throwDist;
-                const dropY = this.player.position.y + Math.sin(this.player.rotation) * throwDist;
-
-                // Ensure drop is within bounds
-                const safeX = Math.max(TILE_SIZE, Math.min(dropX, this.world.width * TILE_SIZE - TILE_SIZE));
-                const safeY = Math.max(TILE_SIZE, Math.min(dropY, this.world.height * TILE_SIZE - TILE_SIZE));
-
-                this.loot.push(new Loot(safeX, safeY, this.player.weapon));
-                this.player.weapon = null;
-            }
-        } else if (!this.input.keys['KeyQ']) {
-            this.player.dropRequested = false;
-        }
+    // Watch a recording instead of playing; exitReplay() starts a new match
+    public loadReplay(replay: Replay) {
+        this.playback = new ReplayPlayback(replay);
+        this.replayPaused = false;
+        this.replaySpeed = 1;
+        this.freeCamera = false;
+        this.accumulator = 0;
+        this.showSimulation(this.playback.simulation);
+        this.onMatchStart();
+    }
 
-        this.player.update(dt, this.world, this.input, this.camera);
+    public exitReplay() {
+        if (!this.playback) return;
+        this.leaveReplay();
+        this.reset();
+    }
 
-        // Camera Follow
-        this.camera.x = this.player.position.x - this.viewW / 2;
-        this.camera.y = this.player.position.y - this.viewH / 2;
+    public setReplayPaused(paused: boolean) {
+        if (!this.playback) return;
+        // Play from the top once the end is reached
+        if (!paused && this.playback.isFinished) this.seekReplay(0);
+        this.replayPaused = paused;
+    }
 
-        // Footsteps
-        const speed = Math.sqrt(this.player.velocity.x ** 2 + this.player.velocity.y ** 2);
-        if (speed > 10 && performance.now() - this.lastFootstepTime > 350) {
-            this.playFootstepSound();
-            this.lastFootstepTime = performance.now();
-        }
+    public setReplaySpeed(speed: number) {
+        this.replaySpeed = Math.max(MIN_REPLAY_SPEED, Math.min(MAX_REPLAY_SPEED, speed));
+    }
 
-        // Player Shooting
-        // Player Shooting
-        if (this.input.mouseDown) {
-            const newBullets = this.player.shoot();
-            if (newBullets) {
-                this.bullets.push(...newBullets);
-                if (this.player.weapon) this.playShootSound(this.player.weapon, false, this.player.position);
-            }
+    // Jump to a tick (going backwards re-simulates from the start)
+    public seekReplay(tick: number) {
+        if (!this.playback) return;
+        this.muted = true;
+        try {
+            this.playback.seek(tick);
+        } finally {
+            this.muted = false;
         }
-
-        // Mobile Auto-Fire
-        if (this.touchShootTarget) {
-            // Calculate world position from screen tap (Account for Zoom and Canvas Offset)
-            const rect = this.canvas.getBoundingClientRect();
-            const canvasX = this.touchShootTarget.x - rect.left;
-            const canvasY = this.touchShootTarget.y - rect.top;
-
-            // Apply Zoom and Camera
-            const worldX = (canvasX / this.zoom) + this.camera.x;
-            const worldY = (canvasY / this.zoom) + this.camera.y;
-
-            // Aim at tap
-            const dx = worldX - this.player.position.x;
-            const dy = worldY - this.player.position.y;
-            this.player.rotation = Math.atan2(dy, dx);
-
-            // Shoot
-            const newBullets = this.player.shoot();
-            if (newBullets) {
-                this.bullets.push(...newBullets);
-                if (this.player.weapon) this.playShootSound(this.player.weapon, false, this.player.position);
-            }
+        this.accumulator = 0;
+        if (this.playback.simulation !== this.simulation) {
+            this.showSimulation(this.playback.simulation);
+            this.rebuildViews();
+        } else {
+            this.followPlayer();
         }
+    }
 
-        // NPCs
-        const allPlayers = [this.player, ...this.npcs];
-        this.npcs.forEach(npc => {
-            // AI Logic
-            const newBullets = npc.updateAI(dt, this.world, this.loot, allPlayers, this.isMobile, this.potions);
-            if (newBullets) {
-                this.bullets.push(...newBullets);
-                if (npc.weapon) this.playShootSound(npc.weapon, true, npc.position);
-            }
+    public setFreeCamera(enabled: boolean) {
+        this.freeCamera = enabled && this.playback !== null;
+        if (!this.freeCamera) this.followPlayer();
+    }
 
-            npc.update(dt, this.world);
-        });
+    private showSimulation(simulation: Simulation) {
+        this.simulation = simulation;
+        this.simulation.onEvent = (event) => this.handleEvent(event);
+    }
 
-        // Update Bullets
-        for (let i = this.bullets.length - 1; i >= 0; i--) {
-            const b = this.bullets[i];
-            b.update(dt);
-
-            // Wall Collision
-            const tileX = Math.floor(b.position.x / TILE_SIZE);
-            const tileY = Math.floor(b.position.y / TILE_SIZE);
-            const tile = this.world.getTile(tileX, tileY);
-
-            if (tile === TileType.WALL || tile === TileType.INDESTRUCTIBLE_WALL) {
-                b.active = false;
-                // Wall Damage
-                if (tile === TileType.WALL) {
-                    this.world.damageWall(tileX, tileY, b.damage);
-                }
+    private leaveReplay() {
+        this.playback = null;
+        this.freeCamera = false;
+        this.showSimulation(this.liveSimulation);
+    }
 
-                if (b.isRocket) {
-                    this.explosions.push(new Explosion(b.position.x, b.position.y, b.owner));
-                }
-            }
+    private loop(time: number) {
+        const frameTime = Math.max(0, (time - this.lastTime) / 1000);
+        this.lastTime = time;
+        this.input.poll();
 
-            // Entity Collision
-            // Check Player
-            if (b.owner !== this.player) {
-                const dist = Math.sqrt((b.position.x - this.player.position.x) ** 2 + (b.position.y - this.player.position.y) ** 2);
-                if (dist < this.player.radius + b.radius) {
-                    b.active = false;
-                    this.damageEntity(this.player, b.damage, b.owner);
-                    if (b.isRocket) {
-                        this.explosions.push(new Explosion(b.position.x, b.position.y, b.owner));
-                        this.playExplosionSound(b.position);
-                    }
-                }
-            }
+        let maxSteps = MAX_STEPS_PER_FRAME;
+        if (this.playback) {
+            if (this.freeCamera) this.panCamera(frameTime);
+            if (!this.replayPaused) this.accumulator += frameTime * this.replaySpeed;
+            maxSteps = Math.ceil(MAX_STEPS_PER_FRAME * Math.max(1, this.replaySpeed));
+        } else {
+            const clock = this.simulation.clock;
+            this.accumulator += clock.scale(frameTime);
+            maxSteps = Math.ceil(MAX_STEPS_PER_FRAME * Math.max(1, clock.timeScale));
+        }
 
-            // Check NPCs
-            this.npcs.forEach(npc => {
-                if (b.owner !== npc) {
-                    const dist = Math.sqrt((b.position.x - npc.position.x) ** 2 + (b.position.y - npc.position.y) ** 2);
-                    if (dist < npc.radius + b.radius) {
-                        b.active = false;
-                        this.damageEntity(npc, b.damage, b.owner);
-                        if (b.isRocket) {
-                            this.explosions.push(new Explosion(b.position.x, b.position.y, b.owner));
-                            this.playExplosionSound(b.position);
-                        }
-                    }
-                }
-            });
+        let steps = 0;
+        while (this.accumulator >= FIXED_DT && steps < maxSteps) {
+            this.tick();
+            this.accumulator -= FIXED_DT;
+            steps++;
+        }
+        if (steps === maxSteps) {
+            this.accumulator %= FIXED_DT;
         }
-        this.bullets = this.bullets.filter(b => b.active);
 
-        // Explosions
-        for (let i = this.explosions.length - 1; i >= 0; i--) {
-            const exp = this.explosions[i];
-            exp.update(dt);
-
-            // Damage Logic (Apply once)
-            if (exp.timeElapsed < dt * 1.5) {
-                // Check Player
-                const pDist = Math.sqrt((exp.position.x - this.player.position.x) ** 2 + (exp.position.y - this.player.position.y) ** 2);
-                if (pDist < exp.maxRadius) {
-                    this.damageEntity(this.player, 100 * (1 - pDist / exp.maxRadius), exp.owner);
-                }
+        this.render(this.accumulator / FIXED_DT);
 
-                // Check NPCs
-                this.npcs.forEach(npc => {
-                    const nDist = Math.sqrt((exp.position.x - npc.position.x) ** 2 + (exp.position.y - npc.position.y) ** 2);
-                    if (nDist < exp.maxRadius) {
-                        this.damageEntity(npc, 100 * (1 - nDist / exp.maxRadius), exp.owner);
-                    }
-                });
+        this.animationId = requestAnimationFrame((t) => this.loop(t));
+    }
 
-                // Wall Damage
-                const ex = Math.floor(exp.position.x / TILE_SIZE);
-                const ey = Math.floor(exp.position.y / TILE_SIZE);
-                const range = Math.ceil(exp.maxRadius / TILE_SIZE);
-                for (let dx = -range; dx <= range; dx++) {
-                    for (let dy = -range; dy <= range; dy++) {
-                        this.world.damageWall(ex + dx, ey + dy, 50);
-                    }
-                }
-            }
+    // Advance the simulation by a number of fixed ticks (independent of the frame loop)
+    public step(count: number = 1) {
+        for (let i = 0; i < count; i++) {
+            this.tick();
         }
-        this.explosions = this.explosions.filter(e => e.active);
-
-        // Loot
-        this.loot.forEach(l => {
-            if (l.active) {
-                const dist = Math.sqrt((l.position.x - this.player.position.x) ** 2 + (l.position.y - this.player.position.y) ** 2);
-                if (dist < this.player.radius + l.radius) {
-                    // Pick up ONLY if unarmed
-                    if (!this.player.weapon) {
-                        this.player.weapon = l.weapon;
-                        this.player.currentAmmo = WEAPONS[l.weapon].magSize;
-                        this.player.maxAmmo = WEAPONS[l.weapon].magSize;
-                        l.active = false;
-                    }
-                }
+    }
 
-                // NPCs pick up loot too!
-                this.npcs.forEach(npc => {
-                    const dist = Math.sqrt((l.position.x - npc.position.x) ** 2 + (l.position.y - npc.position.y) ** 2);
-                    if (dist < npc.radius + l.radius) {
-                        if (!npc.weapon) {
-                            npc.weapon = l.weapon;
-                            npc.currentAmmo = WEAPONS[l.weapon].magSize;
-                            npc.maxAmmo = WEAPONS[l.weapon].magSize;
-                            npc.weaponPickupTime = performance.now() / 1000; // Record pickup time
-                            l.active = false;
-                        }
-                    }
-                });
+    private tick() {
+        if (this.playback) {
+            if (!this.playback.step()) {
+                // Hold on the last frame
+                this.replayPaused = true;
+                this.accumulator = 0;
+                return;
             }
-        });
-        this.loot = this.loot.filter(l => l.active);
-
-        // Potions
-        this.potions.forEach(p => {
-            if (p.active) {
-                // Check Player
-                const dist = Math.sqrt((p.position.x - this.player.position.x) ** 2 + (p.position.y - this.player.position.y) ** 2);
-                if (dist < this.player.radius + p.radius) {
-                    this.consumePotion(this.player, p);
-                }
-
-                // Check NPCs
-                this.npcs.forEach(npc => {
-                    if (p.active) { // Check again in case player took it
-                        const npcDist = Math.sqrt((p.position.x - npc.position.x) ** 2 + (p.position.y - npc.position.y) ** 2);
-                        if (npcDist < npc.radius + p.radius) {
-                            this.consumePotion(npc, p);
-                        }
-                    }
-                });
+        } else {
+            // Restart works in Game Over or Victory
+            if (this.input.wasPressed(InputAction.Restart) && this.simulation.isOver) {
+                this.input.endTick();
+                this.reset();
+                return;
             }
-        });
-        this.potions = this.potions.filter(p => p.active);
 
-        // Swift Halo
-        if (this.swiftHalo && this.swiftHalo.active) {
-            // Check Player
-            const dist = Math.sqrt((this.swiftHalo.position.x - this.player.position.x) ** 2 + (this.swiftHalo.position.y - this.player.position.y) ** 2);
-            if (dist < this.player.radius + this.swiftHalo.radius) {
-                this.swiftHalo.active = false;
-                this.player.hasHalo = true;
-                // Maybe spawn some particles?
-                this.spawnDashParticles(this.player);
-            }
+            this.simulation.step(this.readCommand());
+            this.input.endTick();
+            this.queuedDash = false;
+            this.queuedInteract = false;
+            this.queuedSlot = null;
+            this.queuedShotAim = null;
+        }
+        this.followPlayer();
 
-            // Check NPCs (Coincidence pickup)
-            if (this.swiftHalo.active) {
-                this.npcs.forEach(npc => {
-                    if (this.swiftHalo && this.swiftHalo.active) {
-                        const npcDist = Math.sqrt((this.swiftHalo.position.x - npc.position.x) ** 2 + (this.swiftHalo.position.y - npc.position.y) ** 2);
-                        if (npcDist < npc.radius + this.swiftHalo.radius) {
-                            this.swiftHalo.active = false;
-                            npc.hasHalo = true;
-                            this.spawnDashParticles(npc);
-                        }
-                    }
-                });
-            }
+        // Footsteps
+        const player = this.simulation.player;
+        const speed = Math.sqrt(player.velocity.x ** 2 + player.velocity.y ** 2);
+        if (!player.isDead && speed > 10 && performance.now() - this.lastFootstepTime > 350) {
+            this.playFootstepSound();
+            this.lastFootstepTime = performance.now();
         }
+    }
 
-        // Particles
-        this.particles.forEach(p => p.update(dt));
-        this.particles = this.particles.filter(p => p.life > 0);
+    // Current keyboard/mouse/touch state as a command for this tick
+    private readCommand(): PlayerCommand {
+        const input = this.input;
+        const joystick = input.joystick ?? input.gamepad?.move ?? null;
+        const firing = input.isDown(InputAction.Fire);
 
-        // Cleanup Dead NPCs
-        this.npcs = this.npcs.filter(n => !n.isDead);
+        let move = this.readMoveAxes();
 
-        // Check Victory
-        if (this.npcs.length === 0 && !this.player.isDead) {
-            if (!this.gameEndTime) {
-                this.gameEndTime = performance.now();
-                this.playVictorySound();
+        // Joystick Input (Override Keyboard if active)
+        if (joystick) {
+            move = { x: joystick.x, y: -joystick.y }; // Joystick Y is inverted (Up is positive)
+        }
+
+        // Aiming: twin-stick aim on a gamepad, otherwise look where the stick
+        // points unless the mouse is aiming
+        // Grenades land at the cursor, or as far out as an aim stick is pushed;
+        // aiming with the movement stick throws at full range
+        let aim: number | null = null;
+        let throwDistance = THROW_RANGE;
+        const padAim = input.gamepad?.aim ?? null;
+        if (padAim) {
+            aim = this.assistAim(Math.atan2(-padAim.y, padAim.x));
+            throwDistance = Math.min(1, Math.sqrt(padAim.x ** 2 + padAim.y ** 2)) * THROW_RANGE;
+        } else if (joystick && (input.usingGamepad || !firing)) {
+            if (Math.abs(joystick.x) > 0.1 || Math.abs(joystick.y) > 0.1) {
+                aim = Math.atan2(-joystick.y, joystick.x);
             }
-            if (this.onWinner) this.onWinner('Player');
-            if (this.onGameStateChange) this.onGameStateChange(GameState.GAME_OVER);
+        } else if (!input.usingGamepad) {
+            // Mouse Aiming
+            aim = this.aimAtScreenPoint(input.mouse.x, input.mouse.y);
+            throwDistance = this.distanceToScreenPoint(input.mouse.x, input.mouse.y);
+        }
+
+        // Touch aim stick: aim while pushed, fire when pushed far
+        let shoot = firing;
+        if (this.aimStick) {
+            const push = Math.sqrt(this.aimStick.x ** 2 + this.aimStick.y ** 2);
+            aim = this.assistAim(Math.atan2(-this.aimStick.y, this.aimStick.x));
+            throwDistance = Math.min(1, push) * THROW_RANGE;
+            if (push >= AIM_STICK_FIRE_THRESHOLD) shoot = true;
         }
 
-        // Regen
-        if (performance.now() / 1000 - this.player.lastDamageTime > 5) {
-            this.player.health = Math.min(this.player.maxHealth, this.player.health + dt * 2);
+        // Mobile Auto-Fire: aim at the held tap
+        if (this.touchShootTarget) {
+            aim = this.aimAtScreenPoint(this.touchShootTarget.x, this.touchShootTarget.y);
+            throwDistance = this.distanceToScreenPoint(this.touchShootTarget.x, this.touchShootTarget.y);
+            shoot = true;
         }
+        if (this.queuedShotAim !== null) {
+            aim = this.queuedShotAim;
+            shoot = true;
+        }
+
+        const pickedSlot = SLOT_ACTIONS.findIndex(action => input.wasPressed(action));
+
+        return {
+            move,
+            aim,
+            shoot,
+            reload: input.isDown(InputAction.Reload),
+            dash: input.isDown(InputAction.Dash) || this.queuedDash,
+            drop: input.wasPressed(InputAction.Drop),
+            interact: input.wasPressed(InputAction.Interact) || this.queuedInteract,
+            slot: this.queuedSlot ?? (pickedSlot === -1 ? null : pickedSlot),
+            cycleSlot: (input.wasPressed(InputAction.NextWeapon) ? 1 : 0) - (input.wasPressed(InputAction.PrevWeapon) ? 1 : 0),
+            throw: input.isDown(InputAction.Throw) || this.throwHeld,
+            // Whole pixels, as the replay stores them
+            throwDistance: Math.round(Math.min(THROW_RANGE, throwDistance))
+        };
     }
 
-    private damageEntity(entity: Player, amount: number, dealer: Player | null) {
-        entity.lastDamageTime = performance.now() / 1000;
+    // Keyboard movement as -1/0/1 per axis
+    private readMoveAxes(): { x: number, y: number } {
+        const input = this.input;
+        return {
+            x: (input.isDown(InputAction.MoveRight) ? 1 : 0) - (input.isDown(InputAction.MoveLeft) ? 1 : 0),
+            y: (input.isDown(InputAction.MoveDown) ? 1 : 0) - (input.isDown(InputAction.MoveUp) ? 1 : 0)
+        };
+    }
 
-        // Shield Absorb
-        if (entity.shield > 0) {
-            if (entity.shield >= amount) {
-                entity.shield -= amount;
-                return;
-            } else {
-                amount -= entity.shield;
-                entity.shield = 0;
+    // Sticks are imprecise: snap onto the visible enemy closest to where the
+    // stick points, if any is within a narrow cone
+    private assistAim(aim: number): number {
+        if (!this.aimAssist) return aim;
+        const player = this.simulation.player;
+        let best = aim;
+        let bestOffset = AIM_ASSIST_CONE;
+        for (const npc of this.simulation.npcs) {
+            if (npc.isDead || !this.visibility.isVisible(npc.position) || this.hiddenBySmoke(npc.position)) continue;
+            const dx = npc.position.x - player.position.x;
+            const dy = npc.position.y - player.position.y;
+            if (dx * dx + dy * dy > AIM_ASSIST_RANGE * AIM_ASSIST_RANGE) continue;
+            const angle = Math.atan2(dy, dx);
+            const offset = Math.abs(Math.atan2(Math.sin(angle - aim), Math.cos(angle - aim)));
+            if (offset < bestOffset) {
+                bestOffset = offset;
+                best = angle;
             }
         }
+        return best;
+    }
 
-        entity.health -= amount;
-        if (entity.health <= 0) {
-            if (entity.isDead) return;
-            entity.isDead = true;
-            this.spawnBlood(entity.position.x, entity.position.y);
+    // World position under a point on screen (accounts for zoom and canvas offset)
+    private screenToWorld(clientX: number, clientY: number): Vector2 {
+        const rect = this.canvas.getBoundingClientRect();
+        return {
+            x: (clientX - rect.left) / this.zoom + this.camera.x,
+            y: (clientY - rect.top) / this.zoom + this.camera.y
+        };
+    }
 
-            // Siphon (if player killed npc)
-            // CHECK: dealer === this.player
-            if (entity.isNPC && !this.player.isDead && !entity.siphoned && dealer === this.player) {
-                entity.siphoned = true;
+    // Angle from the player to a point on screen
+    private aimAtScreenPoint(clientX: number, clientY: number): number {
+        const point = this.screenToWorld(clientX, clientY);
+        const player = this.simulation.player;
+        return Math.atan2(point.y - player.position.y, point.x - player.position.x);
+    }
 
-                // Trigger Kill Event
-                if (this.onKill) this.onKill();
-                this.playKillSound();
+    private distanceToScreenPoint(clientX: number, clientY: number): number {
+        const point = this.screenToWorld(clientX, clientY);
+        const player = this.simulation.player;
+        return Math.sqrt((point.x - player.position.x) ** 2 + (point.y - player.position.y) ** 2);
+    }
 
-                const healAmount = 30;
-                const missingHealth = this.player.maxHealth - this.player.health;
+    // The movement keys (or left stick) move the detached replay camera
+    private panCamera(dt: number) {
+        const stick = this.input.gamepad?.move;
+        const move = stick ? { x: stick.x, y: -stick.y } : this.readMoveAxes();
+        this.camera.x += move.x * FREE_CAMERA_SPEED * dt;
+        this.camera.y += move.y * FREE_CAMERA_SPEED * dt;
+    }
 
-                if (healAmount > missingHealth) {
-                    this.player.health = this.player.maxHealth;
-                    const overflow = healAmount - missingHealth;
-                    this.player.shield = Math.min(50, this.player.shield + overflow);
-                } else {
-                    this.player.health += healAmount;
-                }
-            } else if (!entity.isNPC) {
-                // Player Died
-                if (!this.gameEndTime) {
-                    this.gameEndTime = performance.now();
-                    this.playDeathSound();
-                }
-                if (this.onGameStateChange) this.onGameStateChange(GameState.GAME_OVER);
-                if (this.onWinner) this.onWinner('GAME OVER');
-            }
+    // Camera follow plus everything that depends on where the player stands
+    private followPlayer() {
+        const { world, player, loot, potions, swiftHalo } = this.simulation;
+        this.updateZoom();
+        if (!this.freeCamera) {
+            this.camera.x = player.position.x - this.viewW / 2;
+            this.camera.y = player.position.y - this.viewH / 2;
         }
-    }
 
-    private consumePotion(entity: Player, potion: Potion) {
-        potion.active = false;
-        this.playPotionSound();
-        const healAmount = 50;
-        const missingHealth = entity.maxHealth - entity.health;
+        // Sight reaches the corners of the screen; only walls limit it
+        const radius = Math.ceil(Math.sqrt(this.viewW ** 2 + this.viewH ** 2) / 2 / TILE_SIZE);
+        this.visibility.compute(world, player.position, radius);
 
-        if (healAmount > missingHealth) {
-            entity.health = entity.maxHealth;
-            const overflow = healAmount - missingHealth;
-            entity.shield = Math.min(entity.maxShield, entity.shield + overflow);
-        } else {
-            entity.health += healAmount;
+        for (const item of [...loot, ...potions, ...(swiftHalo ? [swiftHalo] : [])]) {
+            if (item.active && this.visibility.isVisible(item.position)) this.spotted.add(item);
         }
     }
 
-    private spawnBlood(x: number, y: number) {
-        for (let i = 0; i < 40; i++) {
-            this.particles.push(new Particle(x, y, '#FF0000'));
-        }
+    // Smoke hides whatever is in or behind it (and everything, from inside it)
+    private hiddenBySmoke(position: Vector2): boolean {
+        const player = this.simulation.player;
+        return this.simulation.smokes.some(s => s.blocks(player.position, position));
     }
 
-    private spawnDashParticles(player: Player) {
-        for (let i = 0; i < 10; i++) {
-            this.particles.push(new Particle(player.position.x, player.position.y, '#FFFFFF'));
+    private handleEvent(event: SimulationEvent) {
+        // Marked even while seeking, so the map is right when playback resumes
+        if (event.type === 'shoot' && !event.suppressed && event.shooter !== this.simulation.player) {
+            this.shotPings.push({ ...event.shooter.position, time: this.simulation.clock.now });
+        }
+        if (this.muted) return;
+        switch (event.type) {
+            case 'shoot':
+                this.playShootSound(event.weapon, event.shooter.isNPC, event.shooter.position, event.suppressed);
+                break;
+            case 'explosion':
+                this.playExplosionSound(event.position);
+                break;
+            case 'melee':
+                this.playMeleeSound(event.position);
+                break;
+            case 'potion':
+                this.playPotionSound();
+                break;
+            case 'kill':
+                if (this.onKill) this.onKill();
+                this.playKillSound();
+                break;
+            case 'death':
+                this.playDeathSound();
+                if (this.playback) break; // The viewer stays up when the recording ends
+                if (this.onGameStateChange) this.onGameStateChange(GameState.GAME_OVER);
+                if (this.onWinner) this.onWinner('GAME OVER');
+                break;
+            case 'victory':
+                this.playVictorySound();
+                if (this.playback) break;
+                if (this.onWinner) this.onWinner('Player');
+                if (this.onGameStateChange) this.onGameStateChange(GameState.GAME_OVER);
+                break;
         }
     }
 
@@ -682,21 +815,22 @@ export class Engine {
         this.playSound('kill');
     }
 
-    private playShootSound(weapon: WeaponType, isNPC: boolean, position: { x: number, y: number }) {
+    private playShootSound(weapon: WeaponType, isNPC: boolean, position: { x: number, y: number }, suppressed: boolean) {
         // Distance Falloff
         let volume = 0.3;
         if (isNPC) {
-            const dist = Math.sqrt((position.x - this.player.position.x) ** 2 + (position.y - this.player.position.y) ** 2);
+            const dist = Math.sqrt((position.x - this.simulation.player.position.x) ** 2 + (position.y - this.simulation.player.position.y) ** 2);
             const maxDist = 10 * TILE_SIZE; // 10 blocks
             if (dist > maxDist) return; // Too far
             volume = 0.15 * (1 - dist / maxDist); // 50% quieter + falloff
         }
+        if (suppressed) volume *= 0.3;
 
         this.playSound('shoot', { weapon, volume });
     }
 
     private playExplosionSound(position: { x: number, y: number }) {
-        const dist = Math.sqrt((position.x - this.player.position.x) ** 2 + (position.y - this.player.position.y) ** 2);
+        const dist = Math.sqrt((position.x - this.simulation.player.position.x) ** 2 + (position.y - this.simulation.player.position.y) ** 2);
         const maxDist = 20 * TILE_SIZE;
         let volume = 0.5;
         if (dist > maxDist) return;
@@ -705,6 +839,13 @@ export class Engine {
         this.playSound('explosion', { volume });
     }
 
+    private playMeleeSound(position: { x: number, y: number }) {
+        const dist = Math.sqrt((position.x - this.simulation.player.position.x) ** 2 + (position.y - this.simulation.player.position.y) ** 2);
+        const maxDist = 10 * TILE_SIZE;
+        if (dist > maxDist) return;
+        this.playSound('melee', { volume: 0.4 * (1 - dist / maxDist) });
+    }
+
     private playDeathSound() {
         this.playSound('death');
     }
@@ -721,15 +862,21 @@ export class Engine {
         this.playSound('potion');
     }
 
-    private playSound(type: 'kill' | 'shoot' | 'explosion' | 'death' | 'victory' | 'footstep' | 'potion', params?: any) {
+    private playSound(type: 'kill' | 'shoot' | 'explosion' | 'melee' | 'death' | 'victory' | 'footstep' | 'potion', params?: any) {
         try {
             if (!this.audioCtx) {
                 this.audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
             }
+            if (!this.masterGain) {
+                this.masterGain = this.audioCtx.createGain();
+                this.masterGain.gain.value = this.volume;
+                this.masterGain.connect(this.audioCtx.destination);
+            }
             if (this.audioCtx.state === 'suspended') {
                 this.audioCtx.resume();
             }
 
+            const output = this.masterGain;
             const t = this.audioCtx.currentTime;
             const vol = params?.volume ?? 0.3;
 
@@ -743,7 +890,7 @@ export class Engine {
                 gain1.gain.setValueAtTime(0.3, t);
                 gain1.gain.exponentialRampToValueAtTime(0.01, t + 0.3);
                 osc1.connect(gain1);
-                gain1.connect(this.audioCtx.destination);
+                gain1.connect(output);
                 osc1.start(t);
                 osc1.stop(t + 0.3);
 
@@ -756,7 +903,7 @@ export class Engine {
                 gain2.gain.setValueAtTime(0.5, t);
                 gain2.gain.exponentialRampToValueAtTime(0.01, t + 0.2);
                 osc2.connect(gain2);
-                gain2.connect(this.audioCtx.destination);
+                gain2.connect(output);
                 osc2.start(t);
                 osc2.stop(t + 0.2);
             } else if (type === 'footstep') {
@@ -780,7 +927,7 @@ export class Engine {
 
                 noise.connect(filter);
                 filter.connect(gain);
-                gain.connect(this.audioCtx.destination);
+                gain.connect(output);
                 noise.start(t);
 
             } else if (type === 'potion') {
@@ -801,7 +948,7 @@ export class Engine {
 
                 osc.connect(filter);
                 filter.connect(gain);
-                gain.connect(this.audioCtx.destination);
+                gain.connect(output);
                 osc.start(t);
                 osc.stop(t + 0.5);
 
@@ -826,23 +973,24 @@ export class Engine {
                 const osc = this.audioCtx.createOscillator();
                 osc.type = 'sawtooth';
 
-                if (weapon === WeaponType.Sniper) {
+                const sound = WEAPONS[weapon].sound;
+                if (sound === WeaponSound.Sniper) {
                     filter.frequency.value = 800;
                     osc.frequency.value = 150;
-                } else if (weapon === WeaponType.Shotgun) {
+                } else if (sound === WeaponSound.Shotgun) {
                     filter.frequency.value = 500;
                     osc.frequency.value = 80;
-                } else if (weapon === WeaponType.SMG) {
+                } else if (sound === WeaponSound.SMG) {
                     filter.frequency.value = 1200;
                     osc.frequency.value = 400;
-                } else if (weapon === WeaponType.RocketLauncher) {
+                } else if (sound === WeaponSound.Rocket) {
                     // Rocket Launch "Whoosh"
                     filter.frequency.value = 400;
                     osc.type = 'sine';
                     osc.frequency.setValueAtTime(200, t);
                     osc.frequency.linearRampToValueAtTime(50, t + 0.5);
                 } else {
-                    // AR
+                    // Rifle
                     filter.frequency.value = 1000;
                     osc.frequency.value = 300;
                 }
@@ -854,7 +1002,7 @@ export class Engine {
                 noise.connect(filter);
                 osc.connect(filter);
                 filter.connect(gain);
-                gain.connect(this.audioCtx.destination);
+                gain.connect(output);
 
                 noise.start(t);
                 osc.start(t);
@@ -878,10 +1026,26 @@ export class Engine {
 
                 osc.connect(filter);
                 filter.connect(gain);
-                gain.connect(this.audioCtx.destination);
+                gain.connect(output);
                 osc.start(t);
                 osc.stop(t + 0.5);
 
+            } else if (type === 'melee') {
+                // Punch (short, dull thump)
+                const osc = this.audioCtx.createOscillator();
+                osc.type = 'triangle';
+                osc.frequency.setValueAtTime(180, t);
+                osc.frequency.exponentialRampToValueAtTime(60, t + 0.08);
+
+                const gain = this.audioCtx.createGain();
+                gain.gain.setValueAtTime(vol, t);
+                gain.gain.exponentialRampToValueAtTime(0.01, t + 0.1);
+
+                osc.connect(gain);
+                gain.connect(output);
+                osc.start(t);
+                osc.stop(t + 0.1);
+
             } else if (type === 'death') {
                 // Low Thud
                 const osc = this.audioCtx.createOscillator();
@@ -894,7 +1058,7 @@ export class Engine {
                 gain.gain.exponentialRampToValueAtTime(0.01, t + 0.5);
 
                 osc.connect(gain);
-                gain.connect(this.audioCtx.destination);
+                gain.connect(output);
                 osc.start(t);
                 osc.stop(t + 0.5);
 
@@ -912,7 +1076,7 @@ export class Engine {
                     gain.gain.exponentialRampToValueAtTime(0.01, startTime + 0.4);
 
                     osc.connect(gain);
-                    gain.connect(this.audioCtx!.destination);
+                    gain.connect(output);
                     osc.start(startTime);
                     osc.stop(startTime + 0.4);
                 });
@@ -923,7 +1087,27 @@ export class Engine {
         }
     }
 
-    private render() {
+    // alpha: how far we are between the last tick and the next (0..1)
+    private render(alpha: number) {
+        const sim = this.simulation;
+
+        // Moving entities are drawn between their previous and current tick positions
+        const lerp = (e: { position: Vector2, prevPosition: Vector2 }): Vector2 => ({
+            x: e.prevPosition.x + (e.position.x - e.prevPosition.x) * alpha,
+            y: e.prevPosition.y + (e.position.y - e.prevPosition.y) * alpha
+        });
+        const playerAt = lerp(sim.player);
+        const camera = this.freeCamera
+            ? { ...this.camera }
+            : { x: playerAt.x - this.viewW / 2, y: playerAt.y - this.viewH / 2 };
+        const drawInterpolated = (e: Player | Bullet | Grenade) => {
+            const at = lerp(e);
+            this.ctx.save();
+            this.ctx.translate(at.x - e.position.x, at.y - e.position.y);
+            e.render(this.ctx, camera);
+            this.ctx.restore();
+        };
+
         // Clear
         this.ctx.fillStyle = '#000';
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
@@ -932,39 +1116,69 @@ export class Engine {
         // Apply Zoom
         this.ctx.scale(this.zoom, this.zoom);
         // Camera Transform
-        this.ctx.translate(-this.camera.x, -this.camera.y);
+        this.ctx.translate(-camera.x, -camera.y);
 
         // World
-        this.world.render(this.ctx, this.camera, this.viewW, this.viewH);
+        sim.world.render(this.ctx, camera, this.viewW, this.viewH);
+
+        // Anything out of the player's sight stays hidden (replays show everything)
+        const visible = (e: { position: Vector2 }) => this.playback !== null || (this.visibility.isVisible(e.position) && !this.hiddenBySmoke(e.position));
 
         // Loot
-        this.loot.forEach(l => l.render(this.ctx, this.camera));
+        sim.loot.filter(visible).forEach(l => l.render(this.ctx, camera));
+
+        // Ammo
+        sim.ammoBoxes.filter(visible).forEach(a => a.render(this.ctx));
+
+        // Throwables
+        sim.throwables.filter(visible).forEach(t => t.render(this.ctx));
+
+        // Attachments
+        sim.attachments.filter(visible).forEach(a => a.render(this.ctx));
 
         // Potions
-        this.potions.forEach(p => p.render(this.ctx, this.camera));
+        sim.potions.filter(visible).forEach(p => p.render(this.ctx, camera));
 
         // Swift Halo
-        if (this.swiftHalo) {
-            this.swiftHalo.render(this.ctx, this.camera);
+        if (sim.swiftHalo && visible(sim.swiftHalo)) {
+            sim.swiftHalo.render(this.ctx, camera);
         }
 
         // NPCs
-        this.npcs.forEach(n => n.render(this.ctx, this.camera));
+        sim.npcs.filter(visible).forEach(drawInterpolated);
 
         // Player
-        this.player.render(this.ctx, this.camera);
+        drawInterpolated(sim.player);
 
         // Bullets
-        this.bullets.forEach(b => b.render(this.ctx, this.camera));
+        sim.bullets.filter(visible).forEach(drawInterpolated);
+
+        // Grenades
+        sim.grenades.filter(visible).forEach(drawInterpolated);
 
         // Explosions
-        this.explosions.forEach(e => e.render(this.ctx, this.camera));
+        sim.explosions.forEach(e => e.render(this.ctx, camera));
 
         // Particles
-        this.particles.forEach(p => p.render(this.ctx, this.camera));
+        sim.particles.forEach(p => p.render(this.ctx, camera));
+
+        // Smoke
+        sim.smokes.forEach(s => s.render(this.ctx));
+
+        // Fog of War
+        if (!this.playback) this.visibility.render(this.ctx, camera, this.viewW, this.viewH);
+
+        // Storm Overlay
+        sim.zone.render(this.ctx, camera, this.viewW, this.viewH);
 
         this.ctx.restore();
 
+        // Flashbang: the screen whites out and fades back as the eyes recover
+        if (sim.player.blindTimer > 0 && !sim.player.isDead) {
+            this.ctx.fillStyle = `rgba(255, 255, 255, ${Math.min(1, sim.player.blindTimer)})`;
+            this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+        }
+
         // UI Removed: handled by React
     }
 }
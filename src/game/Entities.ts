@@ -1,48 +1,64 @@
 import { World, TILE_SIZE } from './World';
 import type { Vector2 } from './types';
-import type { Input } from './Input';
-
-export const WeaponType = {
-    SMG: 'SMG',
-    AssaultRifle: 'Assault Rifle',
-    Shotgun: 'Shotgun',
-    Sniper: 'Sniper Rifle',
-    RocketLauncher: 'Rocket Launcher'
-} as const;
-
-export type WeaponType = typeof WeaponType[keyof typeof WeaponType];
-
-export interface WeaponStats {
-    type: WeaponType;
-    fireRate: number; // Seconds between shots
-    damage: number;
-    speed: number;
-    spread: number; // Radians
-    count: number; // Bullets per shot
-    isRocket?: boolean;
-    color: string;
-    magSize: number;
-    reloadTime: number;
-    wallDamage: number;
+import type { PlayerCommand } from './Simulation';
+import { unseededRng } from './Random';
+import type { Rng } from './Random';
+import { GameClock } from './GameClock';
+import type { SafeZone } from './SafeZone';
+import { AMMO, AmmoType, ATTACHMENTS, damageFalloff, effectiveStats, idealRange, RARITIES, Rarity, THROWABLES, ThrowableType, WEAPONS } from './Weapons';
+import type { Attachment, WeaponStats, WeaponType } from './Weapons';
+import { segmentCircleHit } from './Geometry';
+
+export const INVENTORY_SLOTS = 3;
+export const WEAPON_SWAP_TIME = 0.4; // Seconds before a newly drawn weapon can fire
+
+// Melee: a short swing in front, with a lunge behind it
+export const MELEE_REACH = 35; // Past the attacker's edge (px)
+export const MELEE_ARC = Math.PI * 2 / 3; // Width of the swing (radians)
+const MELEE_COOLDOWN = 0.5;
+const MELEE_SWING_TIME = 0.15; // Seconds a swing can connect
+const LUNGE_SPEED = 600;
+const LUNGE_TIME = 0.1;
+const DASH_STRIKE_WINDOW = 0.25; // Seconds after a dash ends that a swing still rides it
+const KNOCKBACK_DECAY = 10; // Per second
+
+// One inventory slot: the gun, what is left in its magazine and what makes
+// this one better than the rest
+export interface WeaponSlot {
+    weapon: WeaponType;
+    ammo: number;
+    rarity: Rarity;
+    attachments: Attachment[];
 }
 
-export const WEAPONS: Record<WeaponType, WeaponStats> = {
-    [WeaponType.SMG]: { type: WeaponType.SMG, fireRate: 0.08, damage: 12, speed: 850, spread: 0.15, count: 1, color: '#CCCCCC', magSize: 25, reloadTime: 0.75, wallDamage: 0 },
-    [WeaponType.AssaultRifle]: { type: WeaponType.AssaultRifle, fireRate: 0.1, damage: 15, speed: 900, spread: 0.1, count: 1, color: '#4444FF', magSize: 20, reloadTime: 1.0, wallDamage: 1 },
-    [WeaponType.Shotgun]: { type: WeaponType.Shotgun, fireRate: 1.0, damage: 20, speed: 600, spread: 0.3, count: 5, color: '#FF4444', magSize: 8, reloadTime: 1.5, wallDamage: 2 },
-    [WeaponType.Sniper]: { type: WeaponType.Sniper, fireRate: 1.5, damage: 80, speed: 1500, spread: 0.0, count: 1, color: '#44FF44', magSize: 5, reloadTime: 2.0, wallDamage: 5 },
-    [WeaponType.RocketLauncher]: { type: WeaponType.RocketLauncher, fireRate: 2.0, damage: 100, speed: 500, spread: 0.05, count: 1, isRocket: true, color: '#FFAA00', magSize: 3, reloadTime: 1.75, wallDamage: 5 }
-};
+// A gun as it comes out of the crate, fully loaded
+export function newWeaponSlot(weapon: WeaponType, rarity: Rarity = Rarity.Common, attachments: Attachment[] = []): WeaponSlot {
+    return { weapon, ammo: effectiveStats(weapon, rarity, attachments).magSize, rarity, attachments };
+}
+
+export function slotStats(slot: WeaponSlot): WeaponStats {
+    return effectiveStats(slot.weapon, slot.rarity, slot.attachments);
+}
 
 export class Loot {
     public position: Vector2;
     public weapon: WeaponType;
+    public ammo: number; // Dropped guns keep their magazine...
+    public rarity: Rarity;
+    public attachments: Attachment[]; // ...and whatever was fitted to them
     public radius: number = 15;
     public active: boolean = true;
 
-    constructor(x: number, y: number, weapon: WeaponType) {
+    constructor(x: number, y: number, item: WeaponSlot) {
         this.position = { x, y };
-        this.weapon = weapon;
+        this.weapon = item.weapon;
+        this.ammo = item.ammo;
+        this.rarity = item.rarity;
+        this.attachments = item.attachments;
+    }
+
+    public toSlot(): WeaponSlot {
+        return { weapon: this.weapon, ammo: this.ammo, rarity: this.rarity, attachments: [...this.attachments] };
     }
 
     public render(ctx: CanvasRenderingContext2D, _cameraOffset: Vector2) {
@@ -51,31 +67,310 @@ export class Loot {
         ctx.save();
         ctx.translate(this.position.x, this.position.y);
 
-        // Glow effect
-        ctx.shadowBlur = 10;
-        ctx.shadowColor = WEAPONS[this.weapon].color;
+        // Glow in the rarity color
+        ctx.shadowBlur = this.rarity === Rarity.Common ? 10 : 18;
+        ctx.shadowColor = RARITIES[this.rarity].color;
 
         ctx.fillStyle = '#333';
         ctx.fillRect(-10, -5, 20, 10);
+        ctx.strokeStyle = RARITIES[this.rarity].color;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(-10, -5, 20, 10);
         ctx.fillStyle = WEAPONS[this.weapon].color;
         ctx.fillRect(-5, -2, 10, 4);
 
+        // One pip per attachment
+        ctx.shadowBlur = 0;
+        this.attachments.forEach((a, i) => {
+            ctx.fillStyle = ATTACHMENTS[a].color;
+            ctx.fillRect(-10 + i * 6, 7, 4, 4);
+        });
+
+        ctx.restore();
+    }
+}
+
+export class AttachmentPickup {
+    public position: Vector2;
+    public attachment: Attachment;
+    public radius: number = 12;
+    public active: boolean = true;
+
+    constructor(x: number, y: number, attachment: Attachment) {
+        this.position = { x, y };
+        this.attachment = attachment;
+    }
+
+    public render(ctx: CanvasRenderingContext2D) {
+        if (!this.active) return;
+
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+
+        const { color, short } = ATTACHMENTS[this.attachment];
+        ctx.shadowBlur = 8;
+        ctx.shadowColor = color;
+        ctx.fillStyle = '#222';
+        ctx.fillRect(-12, -7, 24, 14);
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(-12, -7, 24, 14);
+
+        ctx.shadowBlur = 0;
+        ctx.fillStyle = color;
+        ctx.font = 'bold 8px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(short, 0, 1);
+
+        ctx.restore();
+    }
+}
+
+export class AmmoBox {
+    public position: Vector2;
+    public ammoType: AmmoType;
+    public amount: number;
+    public radius: number = 12;
+    public active: boolean = true;
+
+    constructor(x: number, y: number, ammoType: AmmoType, amount: number = AMMO[ammoType].boxSize) {
+        this.position = { x, y };
+        this.ammoType = ammoType;
+        this.amount = amount;
+    }
+
+    public render(ctx: CanvasRenderingContext2D) {
+        if (!this.active) return;
+
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+
+        // Crate
+        ctx.fillStyle = '#5B4A2F';
+        ctx.fillRect(-8, -6, 16, 12);
+        ctx.strokeStyle = '#2B2216';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(-8, -6, 16, 12);
+
+        // Rounds in the ammo class color
+        ctx.fillStyle = AMMO[this.ammoType].color;
+        ctx.fillRect(-5, -3, 2, 6);
+        ctx.fillRect(-1, -3, 2, 6);
+        ctx.fillRect(3, -3, 2, 6);
+
+        ctx.restore();
+    }
+}
+
+export class ThrowablePickup {
+    public position: Vector2;
+    public throwable: ThrowableType;
+    public count: number;
+    public radius: number = 12;
+    public active: boolean = true;
+
+    constructor(x: number, y: number, throwable: ThrowableType, count: number = 1) {
+        this.position = { x, y };
+        this.throwable = throwable;
+        this.count = count;
+    }
+
+    public render(ctx: CanvasRenderingContext2D) {
+        if (!this.active) return;
+
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+
+        ctx.shadowBlur = 8;
+        ctx.shadowColor = THROWABLES[this.throwable].color;
+        ctx.beginPath();
+        ctx.arc(0, 0, 7, 0, Math.PI * 2);
+        ctx.fillStyle = THROWABLES[this.throwable].color;
+        ctx.fill();
+        ctx.strokeStyle = '#222';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+
+        // Pin
+        ctx.fillStyle = '#888';
+        ctx.fillRect(-2, -11, 4, 4);
+
+        ctx.restore();
+    }
+}
+
+// Grenade flight: thrown up and forward, falls back, skips along the floor
+const GRENADE_GRAVITY = 1200; // px/s^2
+const GRENADE_LIFT = 300; // Upward speed on release (px/s)
+const GRENADE_MAX_SPEED = 800; // Forward speed of a full-strength throw (px/s)
+const GRENADE_AIR_TIME = 2 * GRENADE_LIFT / GRENADE_GRAVITY; // Seconds before the first bounce
+const GRENADE_GROUND_BOUNCE = 0.4; // Share of vertical speed kept on landing
+const GRENADE_LANDING_DRAG = 0.6; // Share of forward speed kept on landing
+const GRENADE_ROLL_FRICTION = 4; // Per second while rolling
+const GRENADE_WALL_BOUNCE = 0.5; // Share of speed kept bouncing off a wall
+
+// Farthest a grenade lands before bouncing (px)
+export const THROW_RANGE = GRENADE_MAX_SPEED * GRENADE_AIR_TIME;
+
+export class Grenade {
+    public position: Vector2;
+    public prevPosition: Vector2; // Position at the start of the tick (render interpolation)
+    public velocity: Vector2;
+    public height: number = 0; // Above the floor (px), only drawn
+    public lift: number = GRENADE_LIFT; // Vertical speed
+    public radius: number = 5;
+    public active: boolean = true;
+    public type: ThrowableType;
+    public fuse: number; // Seconds left
+    public owner: Player | null;
+
+    // Aimed to land `distance` px away (before bouncing on)
+    constructor(x: number, y: number, angle: number, distance: number, type: ThrowableType, fuse: number, owner: Player | null = null) {
+        this.position = { x, y };
+        this.prevPosition = { x, y };
+        const speed = Math.min(GRENADE_MAX_SPEED, distance / GRENADE_AIR_TIME);
+        this.velocity = { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed };
+        this.type = type;
+        this.fuse = fuse;
+        this.owner = owner;
+    }
+
+    public update(dt: number, world: World) {
+        this.fuse -= dt;
+
+        this.lift -= GRENADE_GRAVITY * dt;
+        this.height += this.lift * dt;
+        if (this.height <= 0) {
+            this.height = 0;
+            if (this.lift < 0) {
+                // Landing
+                this.lift = -this.lift * GRENADE_GROUND_BOUNCE;
+                if (this.lift < GRENADE_LIFT * 0.2) this.lift = 0;
+                this.velocity.x *= GRENADE_LANDING_DRAG;
+                this.velocity.y *= GRENADE_LANDING_DRAG;
+            }
+            const friction = Math.exp(-GRENADE_ROLL_FRICTION * dt);
+            this.velocity.x *= friction;
+            this.velocity.y *= friction;
+        }
+
+        // Walls stand taller than any throw. Move in steps no longer than the
+        // radius so a fast grenade can't end up inside a tile.
+        const travel = Math.sqrt(this.velocity.x ** 2 + this.velocity.y ** 2) * dt;
+        const steps = Math.max(1, Math.ceil(travel / this.radius));
+        for (let i = 0; i < steps; i++) {
+            const next = {
+                x: this.position.x + this.velocity.x * dt / steps,
+                y: this.position.y + this.velocity.y * dt / steps
+            };
+            const collision = world.checkCollision(next, this.radius);
+            if (collision) {
+                next.x += collision.push.x;
+                next.y += collision.push.y;
+                // Reflect off the wall, losing some speed
+                const dot = this.velocity.x * collision.normal.x + this.velocity.y * collision.normal.y;
+                if (dot < 0) {
+                    this.velocity.x -= (1 + GRENADE_WALL_BOUNCE) * dot * collision.normal.x;
+                    this.velocity.y -= (1 + GRENADE_WALL_BOUNCE) * dot * collision.normal.y;
+                }
+            }
+            this.position = next;
+        }
+    }
+
+    public render(ctx: CanvasRenderingContext2D) {
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+
+        // Shadow on the floor, grenade drawn up in the air
+        ctx.beginPath();
+        ctx.ellipse(0, 0, this.radius, this.radius * 0.6, 0, 0, Math.PI * 2);
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+        ctx.fill();
+
+        const scale = 1 + this.height / 100;
+        ctx.beginPath();
+        ctx.arc(0, -this.height * 0.5, this.radius * scale, 0, Math.PI * 2);
+        ctx.fillStyle = THROWABLES[this.type].color;
+        ctx.fill();
+        ctx.strokeStyle = '#111';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+
+        ctx.restore();
+    }
+}
+
+// Blocks sight (bots can't target through it); drawn over everything under it
+export class SmokeCloud {
+    public position: Vector2;
+    public radius: number = 10;
+    public maxRadius: number;
+    public duration: number;
+    public timeElapsed: number = 0;
+    public active: boolean = true;
+
+    constructor(x: number, y: number, maxRadius: number, duration: number) {
+        this.position = { x, y };
+        this.maxRadius = maxRadius;
+        this.duration = duration;
+    }
+
+    public update(dt: number) {
+        this.timeElapsed += dt;
+        if (this.timeElapsed >= this.duration) {
+            this.active = false;
+        } else {
+            // Billows out over the first second
+            this.radius = 10 + (this.maxRadius - 10) * Math.min(1, this.timeElapsed);
+        }
+    }
+
+    // True if the cloud is between a and b (or either is inside it)
+    public blocks(a: Vector2, b: Vector2): boolean {
+        return segmentCircleHit(a, b, this.position, this.radius) !== null ||
+            segmentCircleHit(b, a, this.position, this.radius) !== null;
+    }
+
+    public render(ctx: CanvasRenderingContext2D) {
+        // Thins out over the last two seconds
+        const fade = Math.min(1, (this.duration - this.timeElapsed) / 2);
+        ctx.save();
+        ctx.translate(this.position.x, this.position.y);
+        const gradient = ctx.createRadialGradient(0, 0, this.radius * 0.3, 0, 0, this.radius);
+        gradient.addColorStop(0, `rgba(190, 190, 190, ${0.97 * fade})`);
+        gradient.addColorStop(0.8, `rgba(170, 170, 170, ${0.9 * fade})`);
+        gradient.addColorStop(1, 'rgba(160, 160, 160, 0)');
+        ctx.beginPath();
+        ctx.arc(0, 0, this.radius, 0, Math.PI * 2);
+        ctx.fillStyle = gradient;
+        ctx.fill();
         ctx.restore();
     }
 }
 
 export class Bullet {
     public position: Vector2;
+    public prevPosition: Vector2; // Position at the start of the tick (render interpolation)
     public velocity: Vector2;
     public radius: number = 3;
     public active: boolean = true;
     public lifeTime: number = 2.0; // Seconds
-    public damage: number;
+    public damage: number; // Before falloff; drops with each wall punched through
     public isRocket: boolean;
     public owner: Player | null = null; // To prevent self-damage
+    public stats: WeaponStats;
+    public traveled: number = 0; // Distance flown (px)
+    public pierceLeft: number; // More targets it can pass through
+    public ricochetsLeft: number;
+    public wallsLeft: number; // Destructible wall tiles it can still punch through
+    public punchedWall: { x: number, y: number } | null = null; // The wall tile it is passing through
+    public hitTargets: Player[] = []; // A piercing round hits each target once
 
     constructor(x: number, y: number, angle: number, stats: WeaponStats, owner: Player | null = null) {
         this.position = { x, y };
+        this.prevPosition = { x, y };
         this.velocity = {
             x: Math.cos(angle) * stats.speed,
             y: Math.sin(angle) * stats.speed
@@ -84,16 +379,27 @@ export class Bullet {
         this.isRocket = !!stats.isRocket;
         if (this.isRocket) this.radius = 6;
         this.owner = owner;
+        this.stats = stats;
+        this.pierceLeft = stats.pierce ?? 0;
+        this.ricochetsLeft = stats.ricochets ?? 0;
+        this.wallsLeft = stats.penetratesWalls ? Math.floor(stats.wallDamage) : 0;
+    }
+
+    // Damage dealt on reaching something `distance` px further along
+    public damageAt(distance: number): number {
+        return this.damage * damageFalloff(this.stats, this.traveled + distance);
     }
 
+    // Only moves the round; the Simulation sweeps the step for hits and then
+    // retires it once spent, so its final stretch still connects
     public update(dt: number) {
         this.position.x += this.velocity.x * dt;
         this.position.y += this.velocity.y * dt;
-
         this.lifeTime -= dt;
-        if (this.lifeTime <= 0) {
-            this.active = false;
-        }
+    }
+
+    public get isSpent(): boolean {
+        return this.lifeTime <= 0;
     }
 
     public render(ctx: CanvasRenderingContext2D, _cameraOffset: Vector2) {
@@ -118,9 +424,10 @@ export class Explosion {
     public active: boolean = true;
     public owner: Player | null = null;
 
-    constructor(x: number, y: number, owner: Player | null = null) {
+    constructor(x: number, y: number, owner: Player | null = null, maxRadius: number = 50) {
         this.position = { x, y };
         this.owner = owner;
+        this.maxRadius = maxRadius;
     }
 
     public update(dt: number) {
@@ -160,17 +467,17 @@ export class Particle {
     public color: string;
     public size: number;
 
-    constructor(x: number, y: number, color: string) {
+    constructor(x: number, y: number, color: string, rng: Rng = unseededRng) {
         this.position = { x, y };
-        const angle = Math.random() * Math.PI * 2;
-        const speed = Math.random() * 100 + 50;
+        const angle = rng.next() * Math.PI * 2;
+        const speed = rng.next() * 100 + 50;
         this.velocity = {
             x: Math.cos(angle) * speed,
             y: Math.sin(angle) * speed
         };
         this.color = color;
-        this.size = Math.random() * 3 + 2;
-        this.maxLife = Math.random() * 0.5 + 0.3;
+        this.size = rng.next() * 3 + 2;
+        this.maxLife = rng.next() * 0.5 + 0.3;
         this.life = this.maxLife;
     }
 
@@ -191,8 +498,21 @@ export class Particle {
     }
 }
 
+const NPC_TARGET_MEMORY = 5; // Seconds a bot keeps hunting an enemy after losing sight
+const NPC_THROW_COOLDOWN = 6; // Seconds between a bot's grenades
+
+// How well a bot fights (MatchConfig difficulty picks one)
+export interface BotSkill {
+    spread: number; // Multiplier on weapon spread
+    drawDelay: number; // Seconds after picking up a weapon before it opens fire
+    sightRange: number; // Bots only engage what they can actually see
+}
+
+export const DEFAULT_BOT_SKILL: BotSkill = { spread: 1.0, drawDelay: 3.0, sightRange: 700 };
+
 export class Player {
     public position: Vector2;
+    public prevPosition: Vector2; // Position at the start of the tick (render interpolation)
     public velocity: Vector2 = { x: 0, y: 0 };
     public rotation: number = 0;
     public radius: number = 20;
@@ -204,15 +524,32 @@ export class Player {
     public siphoned: boolean = false;
 
     // Inventory
-    public weapon: WeaponType | null = null;
-    public dropRequested: boolean = false;
+    public slots: (WeaponSlot | null)[] = new Array(INVENTORY_SLOTS).fill(null);
+    public activeSlot: number = 0;
+    public swapTimer: number = 0; // Seconds until the drawn weapon is ready
+    public reserveAmmo: Record<AmmoType, number> = {
+        [AmmoType.Light]: 0, [AmmoType.Rifle]: 0, [AmmoType.Shells]: 0, [AmmoType.Sniper]: 0, [AmmoType.Rocket]: 0
+    };
 
     // Shooting
-    public lastShotTime: number = 0;
-    public currentAmmo: number = 0;
+    public lastShotTime: number = -10; // Allow an immediate first shot
     public isReloading: boolean = false;
     public reloadTimer: number = 0;
-    public maxAmmo: number = 0;
+
+    // Melee
+    public lastMeleeTime: number = -10;
+    public meleeTimer: number = 0; // Seconds left in the current swing
+    public meleeHits: Player[] = []; // Each swing hits a target once
+    public meleeCombo: boolean = false; // The current swing is a dash strike
+    public lungeTimer: number = 0;
+    public knockback: Vector2 = { x: 0, y: 0 }; // Shove on top of our own movement, dying away
+
+    // Throwable slot
+    public throwable: ThrowableType | null = null;
+    public throwableCount: number = 0;
+    public cookTime: number | null = null; // Seconds since the pin was pulled, null when not cooking
+    public lastThrowTime: number = -10;
+    public blindTimer: number = 0; // Seconds left blinded by a flashbang
 
     // Shield & Health Regen
     public shield: number = 0;
@@ -229,34 +566,214 @@ export class Player {
     // AI Support
     public isNPC: boolean = false;
     public aiState: 'IDLE' | 'SEARCHING' | 'FIGHTING' = 'IDLE';
-    public target: Vector2 | null = null;
+    public target: Vector2 | null = null; // Last known position of an enemy that went out of sight
+    public targetMemory: number = 0; // Seconds left before the bot gives up on target
     public path: Vector2[] = [];
     public pathTimer: number = 0;
     public weaponPickupTime: number = 0; // Track when weapon was picked up
+    public skill: BotSkill = DEFAULT_BOT_SKILL;
     public hasHalo: boolean = false; // Swift Halo Effect
 
+    // Gameplay randomness and match time; the Simulation hands out its own
+    public rng: Rng = unseededRng;
+    public clock: GameClock = new GameClock();
+
     constructor(x: number, y: number, isNPC: boolean = false) {
         this.position = { x, y };
+        this.prevPosition = { x, y };
         this.isNPC = isNPC;
     }
 
-    public updateAI(dt: number, world: World, loot: Loot[], players: Player[], isMobile: boolean = false, potions: Potion[] = []) {
+    // The weapon in hand (null when the active slot is empty)
+    public get weapon(): WeaponType | null {
+        return this.slots[this.activeSlot]?.weapon ?? null;
+    }
+
+    public get currentAmmo(): number {
+        return this.slots[this.activeSlot]?.ammo ?? 0;
+    }
+
+    public set currentAmmo(ammo: number) {
+        const slot = this.slots[this.activeSlot];
+        if (slot) slot.ammo = ammo;
+    }
+
+    // The gun in hand as its rarity and attachments make it
+    public get stats(): WeaponStats | null {
+        const slot = this.slots[this.activeSlot];
+        return slot ? slotStats(slot) : null;
+    }
+
+    public get maxAmmo(): number {
+        return this.stats?.magSize ?? 0;
+    }
+
+    // Spare rounds for the weapon in hand
+    public get reserve(): number {
+        return this.weapon ? this.reserveAmmo[WEAPONS[this.weapon].ammoType] : 0;
+    }
+
+    // Neither a loaded magazine nor spare rounds for anything carried
+    public get isOutOfAmmo(): boolean {
+        return this.slots.every(s => !s || (s.ammo === 0 && this.reserveAmmo[WEAPONS[s.weapon].ammoType] === 0));
+    }
+
+    // Less than a magazine left (loaded plus spare) for every gun carried
+    public get isLowOnAmmo(): boolean {
+        return this.slots.every(s => !s || s.ammo + this.reserveAmmo[WEAPONS[s.weapon].ammoType] < slotStats(s).magSize);
+    }
+
+    // Adds up to the carry limit; returns how many rounds were taken
+    public addAmmo(type: AmmoType, amount: number): number {
+        const taken = Math.max(0, Math.min(amount, AMMO[type].maxReserve - this.reserveAmmo[type]));
+        this.reserveAmmo[type] += taken;
+        return taken;
+    }
+
+    // Adds up to the carry limit; returns how many were taken. Only one kind
+    // fits the slot, so another kind is refused until it runs out.
+    public addThrowable(type: ThrowableType, count: number): number {
+        if (this.throwable !== type && this.throwableCount > 0) return 0;
+        const taken = Math.max(0, Math.min(count, THROWABLES[type].maxCarry - (this.throwable === type ? this.throwableCount : 0)));
+        if (taken > 0) {
+            if (this.throwable !== type) this.throwableCount = 0;
+            this.throwable = type;
+            this.throwableCount += taken;
+        }
+        return taken;
+    }
+
+    public get isCooking(): boolean {
+        return this.cookTime !== null;
+    }
+
+    // Pulls the pin; the fuse burns from here whether or not it's thrown
+    public startCooking(): boolean {
+        if (this.isCooking || !this.throwable || this.throwableCount === 0) return false;
+        this.cookTime = 0;
+        this.isReloading = false;
+        return true;
+    }
+
+    // Lets go of the cooked grenade, aimed to land `distance` px ahead
+    public throwGrenade(distance: number): Grenade | null {
+        if (this.cookTime === null || !this.throwable) return null;
+        const stats = THROWABLES[this.throwable];
+        const grenade = new Grenade(this.position.x, this.position.y, this.rotation, distance, this.throwable, stats.fuse - this.cookTime, this);
+        this.cookTime = null;
+        this.lastThrowTime = this.clock.now;
+        this.throwableCount--;
+        if (this.throwableCount === 0) this.throwable = null;
+        return grenade;
+    }
+
+    public get isSwapping(): boolean {
+        return this.swapTimer > 0;
+    }
+
+    public get hasFreeSlot(): boolean {
+        return this.slots.includes(null);
+    }
+
+    // Puts a weapon in a free slot, preferring the empty hand so an unarmed
+    // player can shoot straight away; false when every slot is full
+    public giveWeapon(item: WeaponSlot): boolean {
+        const index = this.slots[this.activeSlot] === null ? this.activeSlot : this.slots.indexOf(null);
+        if (index === -1) return false;
+        this.slots[index] = item;
+        return true;
+    }
+
+    // Fits an attachment to the gun in hand, or else to the first carried gun
+    // without one of that kind; false if none can take it
+    public addAttachment(attachment: Attachment): boolean {
+        const slot = [this.slots[this.activeSlot], ...this.slots].find(s => s && !s.attachments.includes(attachment));
+        if (!slot) return false;
+        slot.attachments = [...slot.attachments, attachment];
+        return true;
+    }
+
+    // Empties the active slot (drops, swaps) and returns what was in it
+    public takeActiveWeapon(): WeaponSlot | null {
+        const slot = this.slots[this.activeSlot];
+        this.slots[this.activeSlot] = null;
+        this.isReloading = false;
+        this.swapTimer = 0;
+        return slot;
+    }
+
+    // Switching cancels a reload and takes WEAPON_SWAP_TIME to draw
+    public selectSlot(index: number): boolean {
+        if (index === this.activeSlot || index < 0 || index >= this.slots.length) return false;
+        this.activeSlot = index;
+        this.isReloading = false;
+        this.swapTimer = this.slots[index] ? WEAPON_SWAP_TIME : 0;
+        return true;
+    }
+
+    // Next (step 1) or previous (step -1) slot that holds a weapon
+    public cycleSlot(step: number): boolean {
+        const count = this.slots.length;
+        for (let i = 1; i < count; i++) {
+            const index = ((this.activeSlot + step * i) % count + count) % count;
+            if (this.slots[index]) return this.selectSlot(index);
+        }
+        return false;
+    }
+
+    private usesAmmo(type: AmmoType): boolean {
+        return this.slots.some(s => s !== null && WEAPONS[s.weapon].ammoType === type);
+    }
+
+    // Bots: draw the gun that suits the current range, preferring loaded ones
+    private chooseSlotFor(distance: number) {
+        let best = this.activeSlot;
+        let bestScore = Infinity;
+        this.slots.forEach((slot, i) => {
+            if (!slot) return;
+            let score = Math.abs(distance - idealRange(slotStats(slot)));
+            if (slot.ammo === 0) score += 300; // Reloading takes longer than swapping
+            if (slot.ammo === 0 && this.reserveAmmo[WEAPONS[slot.weapon].ammoType] === 0) score += 10000; // Dry
+            if (i === this.activeSlot) score -= 100; // Don't flip-flop at the edge of a range
+            if (score < bestScore) {
+                bestScore = score;
+                best = i;
+            }
+        });
+        this.selectSlot(best);
+    }
+
+    public updateAI(dt: number, world: World, loot: Loot[], players: Player[], isMobile: boolean = false, potions: Potion[] = [], zone: SafeZone | null = null, ammoBoxes: AmmoBox[] = [], smokes: SmokeCloud[] = []) {
         if (!this.isNPC || this.isDead) return;
 
+        // Committed to a lunge
+        if (this.lungeTimer > 0) return null;
+
+        // Flashed: stand there until the eyes clear
+        if (this.blindTimer > 0) {
+            this.velocity = { x: 0, y: 0 };
+            this.path = [];
+            return null;
+        }
+
         // 1. State Decision
-        if (!this.weapon) {
+        if (!this.weapon || this.isOutOfAmmo) {
             this.aiState = 'SEARCHING';
         } else {
             this.aiState = 'FIGHTING';
         }
 
+        // Storm: rotate toward the next safe circle when it is closing in
+        const rotateTo = zone && zone.needsRotation(this.position, this.radius * 2) ? zone.targetCenter : null;
+
         // 2. Action based on State
         if (this.aiState === 'SEARCHING') {
-            // Find nearest weapon
-            let nearestLoot: Loot | null = null;
+            // Find the nearest weapon (if there's room for it) or ammo for a gun we carry
+            let nearestLoot: Loot | AmmoBox | null = null;
             let minDist = Infinity;
 
-            for (const l of loot) {
+            const pickups = [...(this.hasFreeSlot ? loot : []), ...ammoBoxes.filter(box => this.usesAmmo(box.ammoType))];
+            for (const l of pickups) {
                 if (!l.active) continue;
                 const dist = Math.sqrt((l.position.x - this.position.x) ** 2 + (l.position.y - this.position.y) ** 2);
                 if (dist < minDist) {
@@ -265,19 +782,21 @@ export class Player {
                 }
             }
 
-            if (nearestLoot) {
+            if (rotateTo && (!nearestLoot || !zone!.targetContains(nearestLoot.position))) {
+                this.moveTo(dt, rotateTo, world);
+            } else if (nearestLoot) {
                 this.moveTo(dt, nearestLoot.position, world);
             }
         } else if (this.aiState === 'FIGHTING') {
-            // Check 3-second delay
-            const now = performance.now() / 1000;
+            // Check draw delay
+            const now = this.clock.now;
 
             // Find nearest target (Player or other NPC)
             let nearestTarget: Player | null = null;
             let minTargetDist = Infinity;
 
             for (const p of players) {
-                if (p === this || p.isDead) continue;
+                if (p === this || p.isDead || !this.canSee(p, world, smokes)) continue;
                 const dist = Math.sqrt((p.position.x - this.position.x) ** 2 + (p.position.y - this.position.y) ** 2);
                 if (dist < minTargetDist) {
                     minTargetDist = dist;
@@ -285,6 +804,16 @@ export class Player {
                 }
             }
 
+            // Remember where the enemy was last seen so we can hunt it down
+            if (nearestTarget) {
+                this.target = { ...nearestTarget.position };
+                this.targetMemory = NPC_TARGET_MEMORY;
+            } else if (this.target) {
+                this.targetMemory -= dt;
+                const distToTarget = Math.sqrt((this.target.x - this.position.x) ** 2 + (this.target.y - this.position.y) ** 2);
+                if (this.targetMemory <= 0 || distToTarget < TILE_SIZE) this.target = null;
+            }
+
             // Potion Logic: If hurt (< 100 HP), check for potions
             let targetPotion: Potion | null = null;
             let minPotionDist = Infinity;
@@ -300,38 +829,118 @@ export class Player {
                 }
             }
 
-            // Decision: Fight or Heal?
-            // Heal if: Found potion AND (Potion is closer than Enemy OR No Enemy visible)
-            if (targetPotion && (minPotionDist < minTargetDist || !nearestTarget)) {
+            // Ammo Logic: running dry, look for rounds that fit a gun we carry
+            let targetAmmo: AmmoBox | null = null;
+            let minAmmoDist = Infinity;
+
+            if (this.isLowOnAmmo) {
+                for (const box of ammoBoxes) {
+                    if (!box.active || !this.usesAmmo(box.ammoType)) continue;
+                    const dist = Math.sqrt((box.position.x - this.position.x) ** 2 + (box.position.y - this.position.y) ** 2);
+                    if (dist < minAmmoDist) {
+                        minAmmoDist = dist;
+                        targetAmmo = box;
+                    }
+                }
+            }
+
+            // Decision: Rotate, Fight, Heal or Restock?
+            if (rotateTo) {
+                // Run into the zone, shooting at anyone close on the way
+                this.moveTo(dt, rotateTo, world);
+                if (nearestTarget && minTargetDist < 400) {
+                    this.rotation = Math.atan2(nearestTarget.position.y - this.position.y, nearestTarget.position.x - this.position.x);
+                    if (now - this.weaponPickupTime >= this.skill.drawDelay) {
+                        return this.shoot((isMobile ? 2.0 : 1.0) * this.skill.spread);
+                    }
+                }
+            } else if (targetPotion && (minPotionDist < minTargetDist || !nearestTarget)) {
+                // Heal if: Found potion AND (Potion is closer than Enemy OR No Enemy visible)
                 // Seek Potion
                 this.moveTo(dt, targetPotion.position, world);
+            } else if (targetAmmo && (minAmmoDist < minTargetDist || !nearestTarget)) {
+                // Restock
+                this.moveTo(dt, targetAmmo.position, world);
             } else if (nearestTarget) {
                 // Fight
                 const dist = minTargetDist;
 
                 // Rotate towards target
                 this.rotation = Math.atan2(nearestTarget.position.y - this.position.y, nearestTarget.position.x - this.position.x);
+                this.chooseSlotFor(dist);
 
                 if (dist < 400) {
                     // Shoot (Only if delay passed)
-                    if (now - this.weaponPickupTime >= 3.0) {
+                    if (now - this.weaponPickupTime >= this.skill.drawDelay) {
                         // Nerf NPC accuracy on Mobile (2x spread)
-                        const spreadMultiplier = isMobile ? 2.0 : 1.0;
+                        const spreadMultiplier = (isMobile ? 2.0 : 1.0) * this.skill.spread;
                         return this.shoot(spreadMultiplier);
                     }
                 } else {
                     // Chase
                     this.moveTo(dt, nearestTarget.position, world);
                 }
+            } else if (this.target) {
+                // Investigate where the enemy was last seen
+                this.moveTo(dt, this.target, world);
+            } else {
+                // Nobody in sight: patrol toward the safe zone (or the city center)
+                const rect = world.cityHouseRect;
+                const patrolTo = zone ? zone.targetCenter : {
+                    x: (rect.x + rect.w / 2) * TILE_SIZE,
+                    y: (rect.y + rect.h / 2) * TILE_SIZE
+                };
+                this.moveTo(dt, patrolTo, world);
             }
         }
         return null;
     }
 
+    // Within sight range and no wall or smoke in between
+    public canSee(target: Player, world: World, smokes: SmokeCloud[] = []): boolean {
+        const dist = Math.sqrt((target.position.x - this.position.x) ** 2 + (target.position.y - this.position.y) ** 2);
+        if (dist > this.skill.sightRange) return false;
+        if (smokes.some(s => s.active && s.blocks(this.position, target.position))) return false;
+        return world.hasLineOfSight(this.position, target.position);
+    }
+
+    // Bots: lob a frag or flashbang at an enemy in throwing range, or pop
+    // smoke between them when hurt. Thrown straight away, without cooking.
+    public updateThrow(world: World, players: Player[], smokes: SmokeCloud[] = []): Grenade | null {
+        if (!this.isNPC || this.isDead || this.blindTimer > 0 || !this.throwable) return null;
+        if (this.clock.now - this.lastThrowTime < NPC_THROW_COOLDOWN) return null;
+
+        let nearest: Player | null = null;
+        let minDist = Infinity;
+        for (const p of players) {
+            if (p === this || p.isDead || !this.canSee(p, world, smokes)) continue;
+            const dist = Math.sqrt((p.position.x - this.position.x) ** 2 + (p.position.y - this.position.y) ** 2);
+            if (dist < minDist) {
+                minDist = dist;
+                nearest = p;
+            }
+        }
+        if (!nearest) return null;
+
+        let distance: number;
+        if (this.throwable === ThrowableType.Smoke) {
+            if (this.health >= 50) return null;
+            distance = minDist / 2;
+        } else {
+            // Not so close that we catch ourselves in it
+            if (minDist < THROWABLES[this.throwable].radius + 20 || minDist > THROW_RANGE) return null;
+            distance = minDist;
+        }
+
+        this.rotation = Math.atan2(nearest.position.y - this.position.y, nearest.position.x - this.position.x);
+        this.startCooking();
+        return this.throwGrenade(distance);
+    }
+
     private moveTo(dt: number, target: Vector2, world: World) {
         // Re-path occasionally
         this.pathTimer -= dt;
-        if (this.pathTimer <= 0 || (this.path.length === 0 && Math.random() < 0.1)) {
+        if (this.pathTimer <= 0 || (this.path.length === 0 && this.rng.next() < 0.1)) {
             this.pathTimer = 1.0; // Path every second
             const path = world.findPath(this.position, target);
             if (path) this.path = path;
@@ -367,11 +976,60 @@ export class Player {
         }
     }
 
+    // Bots: with an enemy in reach and nothing to shoot it with (unarmed, dry,
+    // reloading or still drawing), throw a punch instead
+    public updateMelee(world: World, players: Player[], smokes: SmokeCloud[] = []): boolean {
+        if (!this.isNPC || this.isDead || this.blindTimer > 0) return false;
+        if (this.weapon && !this.isReloading && !this.isSwapping && this.currentAmmo > 0) return false;
+
+        for (const p of players) {
+            if (p === this || p.isDead || !this.canSee(p, world, smokes)) continue;
+            const dist = Math.sqrt((p.position.x - this.position.x) ** 2 + (p.position.y - this.position.y) ** 2);
+            if (dist - p.radius > this.radius + MELEE_REACH) continue;
+            this.rotation = Math.atan2(p.position.y - this.position.y, p.position.x - this.position.x);
+            return this.melee();
+        }
+        return false;
+    }
+
+    // Swinging during a dash or just after it: the dash carries the lunge
+    public get isDashStrike(): boolean {
+        return this.isDashing || this.clock.now - this.lastDashTime <= this.dashDuration + DASH_STRIKE_WINDOW;
+    }
+
+    // Starts a swing; the Simulation lands it on whoever comes into reach
+    // while it lasts, so the lunge carries it onto a target just out of range
+    public melee(): boolean {
+        if (this.isDead || this.isCooking) return false;
+        const now = this.clock.now;
+        if (now - this.lastMeleeTime < MELEE_COOLDOWN) return false;
+
+        this.lastMeleeTime = now;
+        this.meleeTimer = MELEE_SWING_TIME;
+        this.meleeHits = [];
+        this.meleeCombo = this.isDashStrike;
+        if (!this.isDashing) {
+            this.lungeTimer = LUNGE_TIME;
+            this.velocity = { x: Math.cos(this.rotation) * LUNGE_SPEED, y: Math.sin(this.rotation) * LUNGE_SPEED };
+        }
+        return true;
+    }
+
+    // In front of us and close enough to hit
+    public inMeleeReach(target: Player): boolean {
+        const dx = target.position.x - this.position.x;
+        const dy = target.position.y - this.position.y;
+        if (Math.sqrt(dx * dx + dy * dy) - target.radius > this.radius + MELEE_REACH) return false;
+        const offset = Math.atan2(dy, dx) - this.rotation;
+        return Math.abs(Math.atan2(Math.sin(offset), Math.cos(offset))) <= MELEE_ARC / 2;
+    }
+
     public shoot(spreadMultiplier: number = 1.0): Bullet[] | null {
-        if (this.isReloading || !this.weapon) return null;
+        if (this.isReloading || this.isSwapping || this.isCooking || !this.weapon) return null;
 
-        const now = performance.now() / 1000;
-        if (now - this.lastShotTime >= WEAPONS[this.weapon].fireRate) {
+        const now = this.clock.now;
+        const stats = this.stats!;
+        if (now - this.lastShotTime >= stats.fireRate) {
             if (this.currentAmmo <= 0) {
                 this.reload();
                 return null;
@@ -379,14 +1037,13 @@ export class Player {
 
             this.lastShotTime = now;
             this.currentAmmo--;
-            const stats = WEAPONS[this.weapon];
 
             // Spawn Bullets (Loop for shotgun pellets)
             const bullets: Bullet[] = [];
 
             for (let i = 0; i < stats.count; i++) {
                 // Spread
-                const angle = this.rotation + (Math.random() - 0.5) * stats.spread * spreadMultiplier;
+                const angle = this.rotation + (this.rng.next() - 0.5) * stats.spread * spreadMultiplier;
 
                 // Spawn Bullet
                 // Offset to gun position
@@ -403,13 +1060,13 @@ export class Player {
     }
 
     public reload() {
-        if (this.isReloading || !this.weapon || this.currentAmmo === this.maxAmmo) return;
+        if (this.isReloading || this.isSwapping || this.isCooking || !this.weapon || this.currentAmmo === this.maxAmmo || this.reserve === 0) return;
         this.isReloading = true;
-        this.reloadTimer = WEAPONS[this.weapon].reloadTime;
+        this.reloadTimer = this.stats!.reloadTime;
     }
 
     public dash(): boolean {
-        const now = performance.now() / 1000;
+        const now = this.clock.now;
         if (now - this.lastDashTime >= this.dashCooldown && !this.isDashing) {
             this.isDashing = true;
             this.dashTimer = this.dashDuration;
@@ -440,15 +1097,29 @@ export class Player {
         return false;
     }
 
-    public update(dt: number, world: World, input?: Input, camera?: Vector2) {
+    public update(dt: number, world: World, command?: PlayerCommand) {
         if (this.isDead) return;
 
+        // Drawing a weapon
+        if (this.swapTimer > 0) {
+            this.swapTimer = Math.max(0, this.swapTimer - dt);
+        }
+
+        if (this.meleeTimer > 0) this.meleeTimer = Math.max(0, this.meleeTimer - dt);
+        if (this.cookTime !== null) this.cookTime += dt;
+        if (this.blindTimer > 0) this.blindTimer = Math.max(0, this.blindTimer - dt);
+
         // Reload Logic
         if (this.isReloading) {
             this.reloadTimer -= dt;
             if (this.reloadTimer <= 0) {
                 this.isReloading = false;
-                this.currentAmmo = this.maxAmmo;
+                // Top up the magazine from the reserve
+                if (this.weapon) {
+                    const rounds = Math.min(this.maxAmmo - this.currentAmmo, this.reserve);
+                    this.currentAmmo += rounds;
+                    this.reserveAmmo[WEAPONS[this.weapon].ammoType] -= rounds;
+                }
             }
         }
 
@@ -461,29 +1132,18 @@ export class Player {
             }
             // Skip normal movement input while dashing
         }
-        // Movement (Player only)
-        // Movement (Player only)
-        else if (!this.isNPC && input) {
-            this.velocity = { x: 0, y: 0 };
-
-            // Keyboard Input
-            if (input.keys['KeyW']) this.velocity.y = -1;
-            if (input.keys['KeyS']) this.velocity.y = 1;
-            if (input.keys['KeyA']) this.velocity.x = -1;
-            if (input.keys['KeyD']) this.velocity.x = 1;
-
-            // Joystick Input (Override Keyboard if active)
-            if (input.joystick) {
-                this.velocity.x = input.joystick.x;
-                this.velocity.y = -input.joystick.y; // Joystick Y is inverted (Up is positive)
-            }
-
-            // Normalize (Only for keyboard, joystick is already normalized usually)
-            if (!input.joystick && (this.velocity.x !== 0 || this.velocity.y !== 0)) {
-                const len = Math.sqrt(this.velocity.x ** 2 + this.velocity.y ** 2);
-                this.velocity.x /= len;
-                this.velocity.y /= len;
+        // Lunge Logic (same idea, shorter)
+        else if (this.lungeTimer > 0) {
+            this.lungeTimer -= dt;
+            if (this.lungeTimer <= 0) {
+                this.velocity = { x: 0, y: 0 };
             }
+        }
+        // Movement (Player only)
+        else if (!this.isNPC && command) {
+            // Clamp to unit length (analog sticks may already be shorter)
+            const len = Math.sqrt(command.move.x ** 2 + command.move.y ** 2);
+            const scale = len > 1 ? 1 / len : 1;
 
             // Apply Speed
             let speed = this.weapon ? 300 : 400; // Faster when unarmed
@@ -493,28 +1153,20 @@ export class Player {
                 speed *= 1.25;
             }
 
-            this.velocity.x *= speed;
-            this.velocity.y *= speed;
+            this.velocity = { x: command.move.x * scale * speed, y: command.move.y * scale * speed };
 
             // Aiming (Rotation)
-            if (camera) {
-                // If using joystick and NOT shooting/aiming with mouse, look in movement direction
-                if (input.joystick && !input.mouseDown) {
-                    if (Math.abs(input.joystick.x) > 0.1 || Math.abs(input.joystick.y) > 0.1) {
-                        this.rotation = Math.atan2(-input.joystick.y, input.joystick.x);
-                    }
-                } else {
-                    // Mouse Aiming
-                    const dx = input.mouse.x + camera.x - this.position.x;
-                    const dy = input.mouse.y + camera.y - this.position.y;
-                    this.rotation = Math.atan2(dy, dx);
-                }
+            if (command.aim !== null) {
+                this.rotation = command.aim;
             }
         }
 
-        // Apply Velocity
-        const nextX = this.position.x + this.velocity.x * dt;
-        const nextY = this.position.y + this.velocity.y * dt;
+        // Apply Velocity (plus any knockback)
+        const nextX = this.position.x + (this.velocity.x + this.knockback.x) * dt;
+        const nextY = this.position.y + (this.velocity.y + this.knockback.y) * dt;
+        const decay = Math.exp(-KNOCKBACK_DECAY * dt);
+        this.knockback.x *= decay;
+        this.knockback.y *= decay;
 
         // Collision Check (World) - Single Pass with Slide
         const collision = world.checkCollision({ x: nextX, y: nextY }, this.radius);
@@ -561,8 +1213,8 @@ export class Player {
         // Draw Hands/Gun
         if (this.weapon) {
             ctx.fillStyle = WEAPONS[this.weapon].color;
-            // Gun sticking out
-            ctx.fillRect(15, -5, 30, 10);
+            // Gun sticking out (half drawn while swapping)
+            ctx.fillRect(15, -5, this.isSwapping ? 15 : 30, 10);
 
             // Hands
             ctx.fillStyle = '#555555'; // Dark grey hands
@@ -571,14 +1223,26 @@ export class Player {
             ctx.arc(15, -10, 6, 0, Math.PI * 2); // Left hand
             ctx.fill();
         } else {
-            // Fists
+            // Fists (the right one thrown forward mid-swing)
+            const punch = this.meleeTimer > 0 ? 12 : 0;
             ctx.fillStyle = '#555555';
             ctx.beginPath();
-            ctx.arc(15, 15, 6, 0, Math.PI * 2);
+            ctx.arc(15 + punch, 15 - punch, 6, 0, Math.PI * 2);
             ctx.arc(15, -15, 6, 0, Math.PI * 2);
             ctx.fill();
         }
 
+        // Swing arc, brighter on a dash strike
+        if (this.meleeTimer > 0) {
+            ctx.globalAlpha = this.meleeTimer / MELEE_SWING_TIME;
+            ctx.strokeStyle = this.meleeCombo ? '#22D3EE' : '#FFFFFF';
+            ctx.lineWidth = this.meleeCombo ? 5 : 3;
+            ctx.beginPath();
+            ctx.arc(0, 0, this.radius + MELEE_REACH, -MELEE_ARC / 2, MELEE_ARC / 2);
+            ctx.stroke();
+            ctx.globalAlpha = 1;
+        }
+
         ctx.restore();
 
         // Swift Halo (Render on top)
@@ -641,7 +1305,7 @@ export class Player {
 
         // Reload Bar
         if (this.isReloading && this.weapon) {
-            const stats = WEAPONS[this.weapon];
+            const stats = this.stats!;
             const progress = 1 - (this.reloadTimer / stats.reloadTime);
 
             ctx.save();
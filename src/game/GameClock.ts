@@ -0,0 +1,25 @@
+// Match time in seconds. Only simulation steps move it forward, so cooldowns
+// and timers freeze with the game and replay identically in headless runs.
+export class GameClock {
+    public timeScale: number = 1; // Game seconds per real second (< 1 is slow motion)
+    public paused: boolean = false;
+    private time: number = 0;
+
+    public get now(): number {
+        return this.time;
+    }
+
+    // Called by the simulation once per step
+    public advance(dt: number) {
+        this.time += dt;
+    }
+
+    // How much game time a stretch of real time is worth right now
+    public scale(realSeconds: number): number {
+        return this.paused ? 0 : realSeconds * this.timeScale;
+    }
+
+    public reset() {
+        this.time = 0;
+    }
+}
@@ -0,0 +1,150 @@
+import { applyDeadzone, browserGamepads, firstGamepad, isGamepadButtonHeld } from './Input';
+import type { GamepadSource } from './Input';
+
+// Standard-mapping buttons used to drive menus
+const PadButton = {
+    A: 0,
+    UP: 12,
+    DOWN: 13,
+    LEFT: 14,
+    RIGHT: 15
+} as const;
+
+type Direction = 'up' | 'down' | 'left' | 'right';
+
+const STICK_THRESHOLD = 0.5;
+const REPEAT_DELAY = 0.4; // Seconds a direction is held before it repeats
+const REPEAT_INTERVAL = 0.15;
+
+const FOCUSABLE = 'button, select, input, [tabindex]:not([tabindex="-1"])';
+
+// Moves DOM focus between menu controls with the D-pad or left stick; A
+// activates, left/right adjust sliders and dropdowns. Runs its own frame loop
+// because menus are shown while no match (and no Engine) is running.
+export class GamepadMenu {
+    private getGamepads: GamepadSource;
+    private root: HTMLElement;
+    private frame: number | null = null;
+    private lastTime = 0;
+    private heldDirection: Direction | null = null;
+    private repeatTimer = 0;
+    private aHeld = true; // Ignore an A that was already down when the menu opened
+
+    constructor(root: HTMLElement = document.body, getGamepads: GamepadSource = browserGamepads) {
+        this.root = root;
+        this.getGamepads = getGamepads;
+    }
+
+    public start() {
+        if (this.frame !== null) return;
+        this.lastTime = performance.now();
+        this.root.dataset.gamepadMenu = '';
+        this.frame = requestAnimationFrame((t) => this.loop(t));
+    }
+
+    public stop() {
+        if (this.frame !== null) cancelAnimationFrame(this.frame);
+        this.frame = null;
+        delete this.root.dataset.gamepadMenu;
+    }
+
+    // One frame of input
+    public update(dt: number) {
+        const pad = firstGamepad(this.getGamepads);
+        if (!pad) {
+            this.heldDirection = null;
+            return;
+        }
+
+        const aDown = isHeld(pad, PadButton.A);
+        if (aDown && !this.aHeld) this.activate();
+        this.aHeld = aDown;
+
+        const direction = this.readDirection(pad);
+        if (direction !== this.heldDirection) {
+            this.heldDirection = direction;
+            this.repeatTimer = REPEAT_DELAY;
+            if (direction) this.navigate(direction);
+        } else if (direction) {
+            this.repeatTimer -= dt;
+            if (this.repeatTimer <= 0) {
+                this.repeatTimer = REPEAT_INTERVAL;
+                this.navigate(direction);
+            }
+        }
+    }
+
+    private loop(time: number) {
+        this.update(Math.max(0, (time - this.lastTime) / 1000));
+        this.lastTime = time;
+        this.frame = requestAnimationFrame((t) => this.loop(t));
+    }
+
+    private readDirection(pad: Gamepad): Direction | null {
+        if (isHeld(pad, PadButton.UP)) return 'up';
+        if (isHeld(pad, PadButton.DOWN)) return 'down';
+        if (isHeld(pad, PadButton.LEFT)) return 'left';
+        if (isHeld(pad, PadButton.RIGHT)) return 'right';
+
+        const stick = applyDeadzone(pad.axes[0] ?? 0, pad.axes[1] ?? 0, STICK_THRESHOLD);
+        if (!stick) return null;
+        if (Math.abs(stick.x) > Math.abs(stick.y)) return stick.x > 0 ? 'right' : 'left';
+        return stick.y > 0 ? 'down' : 'up';
+    }
+
+    private controls(): HTMLElement[] {
+        return Array.from(this.root.querySelectorAll<HTMLElement>(FOCUSABLE))
+            .filter(el => !(el as HTMLButtonElement).disabled && el.getClientRects().length > 0);
+    }
+
+    private navigate(direction: Direction) {
+        const focused = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        if (focused && (direction === 'left' || direction === 'right') && this.adjust(focused, direction === 'right' ? 1 : -1)) return;
+
+        const controls = this.controls();
+        if (controls.length === 0) return;
+        const index = focused ? controls.indexOf(focused) : -1;
+        const step = direction === 'up' || direction === 'left' ? -1 : 1;
+        const next = index === -1
+            ? (step > 0 ? 0 : controls.length - 1)
+            : (index + step + controls.length) % controls.length;
+        controls[next].focus();
+    }
+
+    // Sliders and dropdowns take left/right as a value change; false if the
+    // control has no value to step
+    private adjust(el: HTMLElement, step: number): boolean {
+        if (el instanceof HTMLSelectElement) {
+            const index = Math.max(0, Math.min(el.options.length - 1, el.selectedIndex + step));
+            setNativeValue(el, el.options[index].value, 'change');
+            return true;
+        }
+        if (el instanceof HTMLInputElement && el.type === 'range') {
+            if (step > 0) el.stepUp(); else el.stepDown();
+            setNativeValue(el, el.value, 'input');
+            return true;
+        }
+        return false;
+    }
+
+    private activate() {
+        const focused = document.activeElement;
+        if (focused instanceof HTMLElement && this.root.contains(focused)) {
+            focused.click();
+        } else {
+            this.controls()[0]?.focus();
+        }
+    }
+}
+
+function isHeld(pad: Gamepad, button: number): boolean {
+    return !!pad.buttons[button] && isGamepadButtonHeld(pad.buttons[button]);
+}
+
+// React tracks the last value it rendered; go through the native setter so the
+// dispatched event is seen as a change
+function setNativeValue(el: HTMLInputElement | HTMLSelectElement, value: string, eventType: 'input' | 'change') {
+    const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(el), 'value')?.set;
+    if (setter) setter.call(el, value); else el.value = value;
+    el.dispatchEvent(new Event(eventType, { bubbles: true }));
+}
@@ -0,0 +1,19 @@
+import type { Vector2 } from './types';
+
+// How far along a-b (0..1) it first comes within `radius` of `center`; 0 if a
+// already is, null if it never does
+export function segmentCircleHit(a: Vector2, b: Vector2, center: Vector2, radius: number): number | null {
+    const fx = a.x - center.x;
+    const fy = a.y - center.y;
+    const c = fx * fx + fy * fy - radius * radius;
+    if (c < 0) return 0;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const qa = dx * dx + dy * dy;
+    if (qa === 0) return null;
+    const qb = 2 * (fx * dx + fy * dy);
+    const discriminant = qb * qb - 4 * qa * c;
+    if (discriminant < 0) return null;
+    const t = (-qb - Math.sqrt(discriminant)) / (2 * qa);
+    return t >= 0 && t <= 1 ? t : null;
+}
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Input, InputAction } from './Input';
+import type { GamepadSource } from './Input';
+
+// Just enough of a Gamepad for Input.poll: buttons by index, four axes
+function mockPad(held: Record<number, number> = {}, axes: number[] = [0, 0, 0, 0]): Gamepad {
+    const buttons = Array.from({ length: 17 }, (_, i) => {
+        const value = held[i] ?? 0;
+        return { pressed: value === 1, touched: value > 0, value };
+    });
+    return { connected: true, buttons, axes } as unknown as Gamepad;
+}
+
+describe('Input gamepad polling', () => {
+    let pad: Gamepad | null;
+    const source: GamepadSource = () => [pad];
+    let input: Input;
+
+    beforeEach(() => {
+        vi.stubGlobal('window', { addEventListener: vi.fn(), removeEventListener: vi.fn() });
+        pad = mockPad();
+        input = new Input(source);
+    });
+
+    afterEach(() => {
+        input.dispose();
+        vi.unstubAllGlobals();
+    });
+
+    it('ignores the sticks inside their dead zones', () => {
+        pad = mockPad({}, [0.15, -0.1, 0.25, 0.2]);
+        input.poll();
+        expect(input.gamepad).toEqual({ move: null, aim: null });
+        expect(input.usingGamepad).toBe(false);
+    });
+
+    it('rescales the left stick past its dead zone and flips y', () => {
+        pad = mockPad({}, [0.6, -0.6, 0, 0]);
+        input.poll();
+        const move = input.gamepad!.move!;
+        expect(Math.sqrt(move.x ** 2 + move.y ** 2)).toBeCloseTo((0.6 * Math.SQRT2 - 0.2) / 0.8);
+        expect(move.x).toBeGreaterThan(0);
+        expect(move.y).toBeGreaterThan(0);
+        expect(input.usingGamepad).toBe(true);
+    });
+
+    it('aims with the right stick once it passes its dead zone', () => {
+        pad = mockPad({}, [0, 0, 0.5, 0.5]);
+        input.poll();
+        expect(input.gamepad!.aim).toEqual({ x: 0.5, y: -0.5 });
+    });
+
+    it('counts an analog trigger as held past the threshold', () => {
+        pad = mockPad({ 7: 0.4 });
+        input.poll();
+        expect(input.isDown(InputAction.Fire)).toBe(false);
+
+        pad = mockPad({ 7: 0.6 });
+        input.poll();
+        expect(input.isDown(InputAction.Fire)).toBe(true);
+    });
+
+    it('reports a button press once, until it is released and pressed again', () => {
+        pad = mockPad({ 0: 1 });
+        input.poll();
+        expect(input.wasPressed(InputAction.Dash)).toBe(true);
+        input.endTick();
+
+        input.poll();
+        expect(input.wasPressed(InputAction.Dash)).toBe(false);
+        expect(input.isDown(InputAction.Dash)).toBe(true);
+
+        pad = mockPad();
+        input.poll();
+        expect(input.isDown(InputAction.Dash)).toBe(false);
+
+        pad = mockPad({ 0: 1 });
+        input.poll();
+        expect(input.wasPressed(InputAction.Dash)).toBe(true);
+    });
+
+    it('releases held buttons when the pad disconnects', () => {
+        pad = mockPad({ 0: 1, 7: 1 }, [0.8, 0, 0, 0]);
+        input.poll();
+        expect(input.isDown(InputAction.Fire)).toBe(true);
+
+        pad = null;
+        input.poll();
+        expect(input.isDown(InputAction.Dash)).toBe(false);
+        expect(input.isDown(InputAction.Fire)).toBe(false);
+        expect(input.gamepad).toBeNull();
+        expect(input.usingGamepad).toBe(false);
+    });
+});
@@ -1,18 +1,281 @@
+// What the player can do, independent of which key does it
+export const InputAction = {
+    MoveUp: 'moveUp',
+    MoveDown: 'moveDown',
+    MoveLeft: 'moveLeft',
+    MoveRight: 'moveRight',
+    Fire: 'fire',
+    Dash: 'dash',
+    Reload: 'reload',
+    Drop: 'drop',
+    Interact: 'interact',
+    Throw: 'throw',
+    NextWeapon: 'nextWeapon',
+    PrevWeapon: 'prevWeapon',
+    Slot1: 'slot1',
+    Slot2: 'slot2',
+    Slot3: 'slot3',
+    Map: 'map',
+    Pause: 'pause',
+    Restart: 'restart'
+} as const;
+
+export type InputAction = typeof InputAction[keyof typeof InputAction];
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+    [InputAction.MoveUp]: 'Move Up',
+    [InputAction.MoveDown]: 'Move Down',
+    [InputAction.MoveLeft]: 'Move Left',
+    [InputAction.MoveRight]: 'Move Right',
+    [InputAction.Fire]: 'Fire',
+    [InputAction.Dash]: 'Dash',
+    [InputAction.Reload]: 'Reload',
+    [InputAction.Drop]: 'Drop Weapon',
+    [InputAction.Interact]: 'Interact',
+    [InputAction.Throw]: 'Throw Grenade',
+    [InputAction.NextWeapon]: 'Next Weapon',
+    [InputAction.PrevWeapon]: 'Previous Weapon',
+    [InputAction.Slot1]: 'Weapon 1',
+    [InputAction.Slot2]: 'Weapon 2',
+    [InputAction.Slot3]: 'Weapon 3',
+    [InputAction.Map]: 'Map',
+    [InputAction.Pause]: 'Pause',
+    [InputAction.Restart]: 'Restart'
+};
+
+// KeyboardEvent.code values, plus Mouse0/Mouse1/Mouse2 for mouse buttons,
+// WheelUp/WheelDown for the scroll wheel and Pad0..Pad16 for gamepad buttons
+// (standard mapping: Pad0 = A, Pad7 = right trigger)
+export type Bindings = Record<InputAction, string[]>;
+
+export const DEFAULT_BINDINGS: Bindings = {
+    [InputAction.MoveUp]: ['KeyW', 'ArrowUp', 'Pad12'],
+    [InputAction.MoveDown]: ['KeyS', 'ArrowDown', 'Pad13'],
+    [InputAction.MoveLeft]: ['KeyA', 'ArrowLeft', 'Pad14'],
+    [InputAction.MoveRight]: ['KeyD', 'ArrowRight', 'Pad15'],
+    [InputAction.Fire]: ['Mouse0', 'Pad7'],
+    [InputAction.Dash]: ['Space', 'Pad0'],
+    [InputAction.Reload]: ['KeyR', 'Pad2'],
+    [InputAction.Drop]: ['KeyQ', 'Pad1'],
+    [InputAction.Interact]: ['KeyE', 'Pad4'],
+    [InputAction.Throw]: ['KeyG', 'Pad6'],
+    [InputAction.NextWeapon]: ['WheelDown', 'Pad3'],
+    [InputAction.PrevWeapon]: ['WheelUp'],
+    [InputAction.Slot1]: ['Digit1'],
+    [InputAction.Slot2]: ['Digit2'],
+    [InputAction.Slot3]: ['Digit3'],
+    [InputAction.Map]: ['KeyM', 'Pad8'],
+    [InputAction.Pause]: ['Escape', 'Pad9'],
+    [InputAction.Restart]: ['Enter', 'Pad5']
+};
+
+// Left stick: inner dead zone, rescaled so movement still starts at 0
+const STICK_DEADZONE = 0.2;
+// Right stick: how far it must be pushed before it turns the player
+const AIM_DEADZONE = 0.35;
+// Analog triggers count as held past this point
+const TRIGGER_THRESHOLD = 0.5;
+
+// navigator.getGamepads, or a stand-in for tests (see Input.test.ts)
+export type GamepadSource = () => ArrayLike<Gamepad | null>;
+
+export const browserGamepads: GamepadSource = () => navigator.getGamepads ? navigator.getGamepads() : [];
+
+// The first connected pad; one player, one controller
+export function firstGamepad(source: GamepadSource): Gamepad | null {
+    const pads = source();
+    for (let i = 0; i < pads.length; i++) {
+        const pad = pads[i];
+        if (pad && pad.connected) return pad;
+    }
+    return null;
+}
+
+// Radial dead zone: null inside it, otherwise rescaled to 0..1 beyond the edge
+export function applyDeadzone(x: number, y: number, deadzone: number): { x: number, y: number } | null {
+    const length = Math.sqrt(x * x + y * y);
+    if (length <= deadzone) return null;
+    const scale = Math.min(1, (length - deadzone) / (1 - deadzone)) / length;
+    return { x: x * scale, y: y * scale };
+}
+
+export function isGamepadButtonHeld(button: GamepadButton): boolean {
+    return button.pressed || button.value > TRIGGER_THRESHOLD;
+}
+
+// Sticks of the active gamepad, in joystick convention (up is +y)
+export interface GamepadSticks {
+    move: { x: number, y: number } | null; // Left stick, null at rest
+    aim: { x: number, y: number } | null; // Right stick, null at rest
+}
+
+// Assign a code to an action, taking it away from any other action so one
+// key never triggers two things
+export function bindKey(bindings: Bindings, action: InputAction, code: string, slot: number = 0): Bindings {
+    const next = { ...bindings };
+    for (const other of Object.values(InputAction)) {
+        next[other] = next[other].filter(c => c !== code);
+    }
+    const codes = [...next[action]];
+    codes[Math.min(slot, codes.length)] = code;
+    next[action] = codes;
+    return next;
+}
+
+// Slot1..Slot3 in slot order
+export const SLOT_ACTIONS: InputAction[] = [InputAction.Slot1, InputAction.Slot2, InputAction.Slot3];
+
+// Missing or malformed actions fall back to their defaults
+export function normalizeBindings(raw: unknown): Bindings {
+    const bindings = { ...DEFAULT_BINDINGS };
+    if (typeof raw !== 'object' || raw === null) return bindings;
+    for (const action of Object.values(InputAction)) {
+        const codes = (raw as Record<string, unknown>)[action];
+        if (Array.isArray(codes) && codes.every(c => typeof c === 'string')) bindings[action] = codes;
+    }
+    return bindings;
+}
+
+// Short label for a bound code, e.g. KeyW -> W, Mouse0 -> LMB
+export function formatKey(code: string): string {
+    if (code.startsWith('Key')) return code.slice(3);
+    if (code.startsWith('Digit')) return code.slice(5);
+    const names: Record<string, string> = {
+        Mouse0: 'LMB', Mouse1: 'MMB', Mouse2: 'RMB', WheelUp: 'Wheel ↑', WheelDown: 'Wheel ↓',
+        Pad0: 'Pad A', Pad1: 'Pad B', Pad2: 'Pad X', Pad3: 'Pad Y',
+        Pad4: 'Pad LB', Pad5: 'Pad RB', Pad6: 'Pad LT', Pad7: 'Pad RT',
+        Pad8: 'Pad Back', Pad9: 'Pad Start', Pad10: 'Pad L3', Pad11: 'Pad R3',
+        Pad12: 'Pad ↑', Pad13: 'Pad ↓', Pad14: 'Pad ←', Pad15: 'Pad →', Pad16: 'Pad Home',
+        ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→',
+        Escape: 'Esc', ShiftLeft: 'L Shift', ShiftRight: 'R Shift',
+        ControlLeft: 'L Ctrl', ControlRight: 'R Ctrl', AltLeft: 'L Alt', AltRight: 'R Alt'
+    };
+    return names[code] ?? code;
+}
+
+// Raw keyboard/mouse/gamepad state mapped through the bindings. "Pressed" is
+// edge-triggered: it stays set until the next endTick(), so a tap between two
+// simulation ticks is never lost and a held key counts once.
 export class Input {
-    public keys: { [key: string]: boolean } = {};
+    public bindings: Bindings = DEFAULT_BINDINGS;
     public mouse: { x: number, y: number } = { x: 0, y: 0 };
-    public mouseDown: boolean = false;
 
     public joystick: { x: number, y: number } | null = null;
+    public gamepad: GamepadSticks | null = null; // Null when no pad is connected
+    public usingGamepad: boolean = false; // The pad was touched more recently than the mouse/keyboard
+
+    // Any bound or unbound code going down, e.g. for actions handled outside the tick
+    public onPress?: (code: string) => void;
+
+    private getGamepads: GamepadSource;
+    private down = new Set<string>();
+    private pressed = new Set<string>();
+
+    private onKeyDown = (e: KeyboardEvent) => {
+        this.usingGamepad = false;
+        if (!e.repeat) this.press(e.code);
+    };
+    private onKeyUp = (e: KeyboardEvent) => this.down.delete(e.code);
+    private onMouseMove = (e: MouseEvent) => {
+        this.usingGamepad = false;
+        this.mouse.x = e.clientX;
+        this.mouse.y = e.clientY;
+    };
+    private onMouseDown = (e: MouseEvent) => {
+        this.usingGamepad = false;
+        this.press(`Mouse${e.button}`);
+    };
+    private onMouseUp = (e: MouseEvent) => this.down.delete(`Mouse${e.button}`);
+    // A wheel notch is pressed and released at once
+    private onWheel = (e: WheelEvent) => {
+        if (e.deltaY === 0) return;
+        const code = e.deltaY > 0 ? 'WheelDown' : 'WheelUp';
+        this.press(code);
+        this.down.delete(code);
+    };
+    // Keys held while the window loses focus never send keyup
+    private onBlur = () => this.down.clear();
+
+    constructor(getGamepads: GamepadSource = browserGamepads) {
+        this.getGamepads = getGamepads;
+        window.addEventListener('keydown', this.onKeyDown);
+        window.addEventListener('keyup', this.onKeyUp);
+        window.addEventListener('mousemove', this.onMouseMove);
+        window.addEventListener('mousedown', this.onMouseDown);
+        window.addEventListener('mouseup', this.onMouseUp);
+        window.addEventListener('wheel', this.onWheel);
+        window.addEventListener('blur', this.onBlur);
+    }
+
+    public dispose() {
+        window.removeEventListener('keydown', this.onKeyDown);
+        window.removeEventListener('keyup', this.onKeyUp);
+        window.removeEventListener('mousemove', this.onMouseMove);
+        window.removeEventListener('mousedown', this.onMouseDown);
+        window.removeEventListener('mouseup', this.onMouseUp);
+        window.removeEventListener('wheel', this.onWheel);
+        window.removeEventListener('blur', this.onBlur);
+    }
 
-    constructor() {
-        window.addEventListener('keydown', (e) => this.keys[e.code] = true);
-        window.addEventListener('keyup', (e) => this.keys[e.code] = false);
-        window.addEventListener('mousemove', (e) => {
-            this.mouse.x = e.clientX;
-            this.mouse.y = e.clientY;
+    // Held right now
+    public isDown(action: InputAction): boolean {
+        return this.bindings[action].some(code => this.down.has(code));
+    }
+
+    // Went down since the last endTick()
+    public wasPressed(action: InputAction): boolean {
+        return this.bindings[action].some(code => this.pressed.has(code));
+    }
+
+    public matches(action: InputAction, code: string): boolean {
+        return this.bindings[action].includes(code);
+    }
+
+    // The Gamepad API has no events for buttons or sticks; call once per frame
+    public poll() {
+        const pad = firstGamepad(this.getGamepads);
+        if (!pad) {
+            if (this.gamepad) this.releaseGamepad();
+            return;
+        }
+
+        pad.buttons.forEach((button, i) => {
+            const code = `Pad${i}`;
+            const held = isGamepadButtonHeld(button);
+            if (held && !this.down.has(code)) {
+                this.usingGamepad = true;
+                this.press(code);
+            } else if (!held) {
+                this.down.delete(code);
+            }
         });
-        window.addEventListener('mousedown', () => this.mouseDown = true);
-        window.addEventListener('mouseup', () => this.mouseDown = false);
+
+        // Gamepad Y axes point down; flip to match the touch joystick
+        const move = applyDeadzone(pad.axes[0] ?? 0, -(pad.axes[1] ?? 0), STICK_DEADZONE);
+        const aimX = pad.axes[2] ?? 0;
+        const aimY = -(pad.axes[3] ?? 0);
+        const aim = Math.sqrt(aimX * aimX + aimY * aimY) > AIM_DEADZONE ? { x: aimX, y: aimY } : null;
+        if (move || aim) this.usingGamepad = true;
+        this.gamepad = { move, aim };
+    }
+
+    // Call after each simulation tick has read its input
+    public endTick() {
+        this.pressed.clear();
+    }
+
+    private press(code: string) {
+        this.down.add(code);
+        this.pressed.add(code);
+        if (this.onPress) this.onPress(code);
+    }
+
+    // Disconnected mid-press: nothing will ever report the buttons going up
+    private releaseGamepad() {
+        for (const code of [...this.down]) {
+            if (code.startsWith('Pad')) this.down.delete(code);
+        }
+        this.gamepad = null;
+        this.usingGamepad = false;
     }
 }
@@ -0,0 +1,224 @@
+import { TileType } from './World';
+import { AmmoType, Attachment, isWeaponType, Rarity, ThrowableType } from './Weapons';
+import type { WeaponType } from './Weapons';
+
+// Persisted World layout. Bump MAP_FORMAT_VERSION on breaking changes and
+// teach parseMapData how to read the old shape.
+export const MAP_FORMAT_VERSION = 1;
+const MAP_STRING_PREFIX = 'KMAP1:';
+
+// Positions are in tile units (fractions allowed), so 5.5 is the center of tile 5
+export interface MapPoint {
+    x: number;
+    y: number;
+}
+
+export interface LootPlacement extends MapPoint {
+    weapon: WeaponType;
+    rarity?: Rarity; // Common when missing (older maps)
+}
+
+export interface AmmoPlacement extends MapPoint {
+    ammoType: AmmoType;
+}
+
+export interface ThrowablePlacement extends MapPoint {
+    throwable: ThrowableType;
+}
+
+export interface AttachmentPlacement extends MapPoint {
+    attachment: Attachment;
+}
+
+export interface MapMarkers {
+    playerSpawn: MapPoint | null;
+    npcSpawns: MapPoint[];
+    loot: LootPlacement[];
+    ammo: AmmoPlacement[]; // Empty in older maps: boxes then spawn next to the loot
+    throwables: ThrowablePlacement[]; // Empty in older maps: grenades then spawn at random
+    attachments: AttachmentPlacement[]; // Likewise
+    potions: MapPoint[];
+    swiftHalo: MapPoint | null;
+}
+
+export interface MapData {
+    version: number;
+    name?: string;
+    seed?: number;
+    width: number;
+    height: number;
+    tiles: number[]; // Row-major: tiles[y * width + x]
+    wallHealth: number[]; // Same layout as tiles
+    cityHouseRect: { x: number, y: number, w: number, h: number };
+    markers: MapMarkers;
+}
+
+export function createEmptyMarkers(): MapMarkers {
+    return { playerSpawn: null, npcSpawns: [], loot: [], ammo: [], throwables: [], attachments: [], potions: [], swiftHalo: null };
+}
+
+// Run-length encoding: "50*3,2*1,0" => fifty 3s, two 1s, one 0
+export function encodeRle(values: number[]): string {
+    const runs: string[] = [];
+    let i = 0;
+    while (i < values.length) {
+        let count = 1;
+        while (i + count < values.length && values[i + count] === values[i]) count++;
+        runs.push(count > 1 ? `${count}*${values[i]}` : `${values[i]}`);
+        i += count;
+    }
+    return runs.join(',');
+}
+
+export function decodeRle(text: string): number[] {
+    const values: number[] = [];
+    if (text.length === 0) return values;
+    for (const run of text.split(',')) {
+        const [countPart, valuePart] = run.includes('*') ? run.split('*') : ['1', run];
+        const count = Number(countPart);
+        const value = Number(valuePart);
+        if (!Number.isInteger(count) || count < 1 || !Number.isFinite(value)) {
+            throw new Error(`Invalid map data: bad RLE run "${run}"`);
+        }
+        for (let i = 0; i < count; i++) values.push(value);
+    }
+    return values;
+}
+
+export function serializeMapData(data: MapData): string {
+    return JSON.stringify(data);
+}
+
+// Compact single-line form, e.g. for URLs or pasting into chat
+export function encodeMapString(data: MapData): string {
+    const compact = { ...data, tiles: encodeRle(data.tiles), wallHealth: encodeRle(data.wallHealth) };
+    return MAP_STRING_PREFIX + toBase64(JSON.stringify(compact));
+}
+
+// btoa/atob only handle Latin-1, so go through UTF-8 bytes (map names may be unicode)
+function toBase64(text: string): string {
+    let binary = '';
+    for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+    return btoa(binary);
+}
+
+function fromBase64(encoded: string): string {
+    return new TextDecoder().decode(Uint8Array.from(atob(encoded), c => c.charCodeAt(0)));
+}
+
+// Accepts either the JSON form or the compact string
+export function parseMapData(text: string): MapData {
+    const trimmed = text.trim();
+    let raw: unknown;
+    try {
+        if (trimmed.startsWith(MAP_STRING_PREFIX)) {
+            const compact = JSON.parse(fromBase64(trimmed.slice(MAP_STRING_PREFIX.length)));
+            raw = {
+                ...compact,
+                tiles: decodeRle(String(compact.tiles)),
+                wallHealth: decodeRle(String(compact.wallHealth))
+            };
+        } else {
+            raw = JSON.parse(trimmed);
+        }
+    } catch (e) {
+        throw new Error(`Invalid map data: ${(e as Error).message}`);
+    }
+    return validateMapData(raw);
+}
+
+export function validateMapData(raw: unknown): MapData {
+    if (typeof raw !== 'object' || raw === null) throw new Error('Invalid map data: expected an object');
+    const data = raw as Partial<MapData>;
+
+    if (typeof data.version !== 'number') throw new Error('Invalid map data: missing version');
+    if (data.version > MAP_FORMAT_VERSION) {
+        throw new Error(`Unsupported map version ${data.version} (this build reads up to ${MAP_FORMAT_VERSION})`);
+    }
+
+    const { width, height } = data;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width! < 3 || height! < 3) {
+        throw new Error('Invalid map data: width and height must be integers >= 3');
+    }
+    const size = width! * height!;
+
+    const validTiles = Object.values(TileType) as number[];
+    if (!Array.isArray(data.tiles) || data.tiles.length !== size) {
+        throw new Error(`Invalid map data: expected ${size} tiles`);
+    }
+    const badTile = data.tiles.findIndex(t => !validTiles.includes(t));
+    if (badTile !== -1) {
+        throw new Error(`Invalid map data: unknown tile ${data.tiles[badTile]} at (${badTile % width!}, ${Math.floor(badTile / width!)})`);
+    }
+    if (!Array.isArray(data.wallHealth) || data.wallHealth.length !== size || data.wallHealth.some(h => typeof h !== 'number')) {
+        throw new Error(`Invalid map data: expected ${size} wallHealth values`);
+    }
+
+    const rect = data.cityHouseRect;
+    if (!rect || [rect.x, rect.y, rect.w, rect.h].some(v => typeof v !== 'number')) {
+        throw new Error('Invalid map data: missing cityHouseRect');
+    }
+
+    if (data.markers !== undefined && (typeof data.markers !== 'object' || data.markers === null || Array.isArray(data.markers))) {
+        throw new Error('Invalid map data: markers must be an object');
+    }
+    const markers = { ...createEmptyMarkers(), ...data.markers };
+    const lists = ['npcSpawns', 'loot', 'ammo', 'throwables', 'attachments', 'potions'] as const;
+    const notList = lists.find(key => !Array.isArray(markers[key]));
+    if (notList) throw new Error(`Invalid map data: markers.${notList} must be a list`);
+    const validAmmo = Object.values(AmmoType) as string[];
+    const validThrowables = Object.values(ThrowableType) as string[];
+    const validAttachments = Object.values(Attachment) as string[];
+    const validRarities = Object.values(Rarity) as string[];
+    const inBounds = (p: MapPoint, label: string) => {
+        if (typeof p !== 'object' || p === null || typeof p.x !== 'number' || typeof p.y !== 'number') {
+            throw new Error(`Invalid map data: ${label} must be a point with numeric x and y`);
+        }
+        if (p.x < 0 || p.y < 0 || p.x > width! || p.y > height!) {
+            throw new Error(`Invalid map data: ${label} is out of bounds`);
+        }
+    };
+    if (markers.playerSpawn !== null) inBounds(markers.playerSpawn, 'player spawn');
+    if (markers.swiftHalo !== null) inBounds(markers.swiftHalo, 'Swift Halo');
+    markers.npcSpawns.forEach((p, i) => inBounds(p, `NPC spawn #${i + 1}`));
+    markers.potions.forEach((p, i) => inBounds(p, `potion #${i + 1}`));
+    markers.loot.forEach((p, i) => {
+        inBounds(p, `loot #${i + 1}`);
+        if (!isWeaponType(p.weapon)) {
+            throw new Error(`Invalid map data: loot #${i + 1} has unknown weapon "${p.weapon}"`);
+        }
+        if (p.rarity !== undefined && !validRarities.includes(p.rarity)) {
+            throw new Error(`Invalid map data: loot #${i + 1} has unknown rarity "${p.rarity}"`);
+        }
+    });
+    markers.ammo.forEach((p, i) => {
+        inBounds(p, `ammo box #${i + 1}`);
+        if (!validAmmo.includes(p.ammoType)) {
+            throw new Error(`Invalid map data: ammo box #${i + 1} has unknown ammo type "${p.ammoType}"`);
+        }
+    });
+    markers.throwables.forEach((p, i) => {
+        inBounds(p, `throwable #${i + 1}`);
+        if (!validThrowables.includes(p.throwable)) {
+            throw new Error(`Invalid map data: throwable #${i + 1} has unknown type "${p.throwable}"`);
+        }
+    });
+    markers.attachments.forEach((p, i) => {
+        inBounds(p, `attachment #${i + 1}`);
+        if (!validAttachments.includes(p.attachment)) {
+            throw new Error(`Invalid map data: attachment #${i + 1} has unknown type "${p.attachment}"`);
+        }
+    });
+
+    return {
+        version: MAP_FORMAT_VERSION,
+        name: data.name,
+        seed: data.seed,
+        width: width!,
+        height: height!,
+        tiles: data.tiles,
+        wallHealth: data.wallHealth,
+        cityHouseRect: { x: rect.x, y: rect.y, w: rect.w, h: rect.h },
+        markers
+    };
+}
@@ -0,0 +1,304 @@
+import { TileType } from './World';
+import type { World } from './World';
+import type { Rng } from './Random';
+import { randomInt, randomPick } from './Random';
+
+// A MapGenerator fills world.tiles / world.wallHealth. World runs its
+// connectivity pass afterwards: it walls off pockets cut off from the center
+// and carves a corridor (through indestructible interior walls too) from the
+// spawn to the center, so generators don't need to guarantee either.
+export interface MapGenerator {
+    id: MapGeneratorId;
+    name: string;
+    generate(world: World, rng: Rng): void;
+}
+
+export const MapGeneratorId = {
+    Kowloon: 'kowloon',
+    CityBlocks: 'city-blocks',
+    StreetGrid: 'street-grid'
+} as const;
+
+export type MapGeneratorId = typeof MapGeneratorId[keyof typeof MapGeneratorId];
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+// Solid block of WALL inside an indestructible border
+function fillWalls(world: World) {
+    for (let x = 0; x < world.width; x++) {
+        world.tiles[x] = [];
+        world.wallHealth[x] = [];
+        for (let y = 0; y < world.height; y++) {
+            const edge = x === 0 || x === world.width - 1 || y === 0 || y === world.height - 1;
+            world.tiles[x][y] = edge ? TileType.INDESTRUCTIBLE_WALL : TileType.WALL;
+            world.wallHealth[x][y] = 100;
+        }
+    }
+}
+
+function carveRect(world: World, rect: Rect, tile: TileType = TileType.FLOOR) {
+    for (let x = Math.max(1, rect.x); x < Math.min(world.width - 1, rect.x + rect.w); x++) {
+        for (let y = Math.max(1, rect.y); y < Math.min(world.height - 1, rect.y + rect.h); y++) {
+            world.tiles[x][y] = tile;
+        }
+    }
+}
+
+function sprinkleIndestructible(world: World, rng: Rng, chance: number) {
+    for (let x = 1; x < world.width - 1; x++) {
+        for (let y = 1; y < world.height - 1; y++) {
+            if (world.tiles[x][y] === TileType.WALL) {
+                if (rng.next() < chance) {
+                    world.tiles[x][y] = TileType.INDESTRUCTIBLE_WALL;
+                }
+            }
+        }
+    }
+}
+
+// Open plaza in the middle of the map (Swift Halo spawn / connectivity anchor)
+function carveCityCenter(world: World) {
+    const centerX = Math.floor(world.width / 2);
+    const centerY = Math.floor(world.height / 2);
+    const centerRadius = 5;
+    for (let x = centerX - centerRadius; x <= centerX + centerRadius; x++) {
+        for (let y = centerY - centerRadius; y <= centerY + centerRadius; y++) {
+            if (x > 0 && x < world.width - 1 && y > 0 && y < world.height - 1) {
+                world.tiles[x][y] = TileType.CITY_HOUSE_FLOOR;
+            }
+        }
+    }
+}
+
+// Original cellular-automata "Kowloon Walled City" maze
+export class KowloonGenerator implements MapGenerator {
+    public id = MapGeneratorId.Kowloon;
+    public name = 'Kowloon';
+
+    public generate(world: World, rng: Rng) {
+        // 1. Fill with noise
+        for (let x = 0; x < world.width; x++) {
+            world.tiles[x] = [];
+            world.wallHealth[x] = [];
+            for (let y = 0; y < world.height; y++) {
+                // 40% chance of wall (Kowloon Density), keep edges as walls
+                if (x === 0 || x === world.width - 1 || y === 0 || y === world.height - 1) {
+                    world.tiles[x][y] = TileType.INDESTRUCTIBLE_WALL;
+                } else {
+                    // Density tuned: 0.40 -> 0.43 (Slight increase)
+                    world.tiles[x][y] = rng.next() < 0.43 ? TileType.WALL : TileType.FLOOR;
+                }
+                world.wallHealth[x][y] = 100;
+            }
+        }
+
+        // 2. Cellular Automata (Smooth out)
+        for (let i = 0; i < 5; i++) {
+            smoothMap(world);
+        }
+
+        // 2.5 Convert some walls to Indestructible (Sprinkle them in)
+        sprinkleIndestructible(world, rng, 0.15);
+
+        // 3. Widen Alleyways (Ensure 2-block wide paths where possible)
+        // Simple pass: if a floor tile has < 2 floor neighbors (horizontal/vertical), clear a neighbor
+        for (let x = 2; x < world.width - 2; x++) {
+            for (let y = 2; y < world.height - 2; y++) {
+                if (world.tiles[x][y] === TileType.FLOOR) {
+                    // Check orthogonal neighbors
+                    let floorNeighbors = 0;
+                    if (world.tiles[x + 1][y] === TileType.FLOOR) floorNeighbors++;
+                    if (world.tiles[x - 1][y] === TileType.FLOOR) floorNeighbors++;
+                    if (world.tiles[x][y + 1] === TileType.FLOOR) floorNeighbors++;
+                    if (world.tiles[x][y - 1] === TileType.FLOOR) floorNeighbors++;
+
+                    if (floorNeighbors < 2) {
+                        // Too narrow, open up a random neighbor
+                        const dirs = [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }];
+                        const dir = randomPick(rng, dirs);
+                        const nx = x + dir.x;
+                        const ny = y + dir.y;
+                        if (world.tiles[nx][ny] === TileType.WALL) {
+                            world.tiles[nx][ny] = TileType.FLOOR;
+                        }
+                    }
+                }
+            }
+        }
+
+        // 3. City Center (Open Area)
+        carveCityCenter(world);
+    }
+}
+
+function smoothMap(world: World) {
+    const newTiles = JSON.parse(JSON.stringify(world.tiles));
+    for (let x = 1; x < world.width - 1; x++) {
+        for (let y = 1; y < world.height - 1; y++) {
+            let neighbors = 0;
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dy = -1; dy <= 1; dy++) {
+                    if (dx === 0 && dy === 0) continue;
+                    if (world.tiles[x + dx][y + dy] === TileType.WALL ||
+                        world.tiles[x + dx][y + dy] === TileType.INDESTRUCTIBLE_WALL) {
+                        neighbors++;
+                    }
+                }
+            }
+
+            if (neighbors > 4) {
+                newTiles[x][y] = TileType.WALL;
+            } else if (neighbors < 4) {
+                newTiles[x][y] = TileType.FLOOR;
+            }
+        }
+    }
+    world.tiles = newTiles;
+}
+
+// BSP "city blocks": recursively split the map, put a room in every leaf and
+// join sibling subtrees with 2-wide corridors
+export class CityBlocksGenerator implements MapGenerator {
+    public id = MapGeneratorId.CityBlocks;
+    public name = 'City Blocks';
+
+    private minLeaf = 8;
+
+    public generate(world: World, rng: Rng) {
+        fillWalls(world);
+        this.split(world, rng, { x: 1, y: 1, w: world.width - 2, h: world.height - 2 });
+        sprinkleIndestructible(world, rng, 0.15);
+        carveCityCenter(world);
+    }
+
+    // Returns a point inside the carved subtree so the parent can connect to it
+    private split(world: World, rng: Rng, rect: Rect): { x: number, y: number } {
+        const canSplitH = rect.h >= this.minLeaf * 2;
+        const canSplitV = rect.w >= this.minLeaf * 2;
+
+        if (!canSplitH && !canSplitV) {
+            // Leaf: room with at least a 1-tile wall shell
+            const w = Math.max(3, rect.w - 2 - randomInt(rng, 3));
+            const h = Math.max(3, rect.h - 2 - randomInt(rng, 3));
+            const room = {
+                x: rect.x + 1 + randomInt(rng, rect.w - w - 1),
+                y: rect.y + 1 + randomInt(rng, rect.h - h - 1),
+                w,
+                h
+            };
+            carveRect(world, room);
+            return { x: room.x + Math.floor(room.w / 2), y: room.y + Math.floor(room.h / 2) };
+        }
+
+        // Split across the longer side
+        const vertical = canSplitV && (!canSplitH || rect.w > rect.h || (rect.w === rect.h && rng.next() < 0.5));
+        let a: Rect;
+        let b: Rect;
+        if (vertical) {
+            const cut = this.minLeaf + randomInt(rng, rect.w - this.minLeaf * 2 + 1);
+            a = { x: rect.x, y: rect.y, w: cut, h: rect.h };
+            b = { x: rect.x + cut, y: rect.y, w: rect.w - cut, h: rect.h };
+        } else {
+            const cut = this.minLeaf + randomInt(rng, rect.h - this.minLeaf * 2 + 1);
+            a = { x: rect.x, y: rect.y, w: rect.w, h: cut };
+            b = { x: rect.x, y: rect.y + cut, w: rect.w, h: rect.h - cut };
+        }
+
+        const pa = this.split(world, rng, a);
+        const pb = this.split(world, rng, b);
+        this.corridor(world, rng, pa, pb);
+        return rng.next() < 0.5 ? pa : pb;
+    }
+
+    // L-shaped, 2 tiles wide
+    private corridor(world: World, rng: Rng, from: { x: number, y: number }, to: { x: number, y: number }) {
+        const horizontalFirst = rng.next() < 0.5;
+        const corner = horizontalFirst ? { x: to.x, y: from.y } : { x: from.x, y: to.y };
+        const segment = (p: { x: number, y: number }, q: { x: number, y: number }) => {
+            carveRect(world, {
+                x: Math.min(p.x, q.x),
+                y: Math.min(p.y, q.y),
+                w: Math.abs(p.x - q.x) + 2,
+                h: Math.abs(p.y - q.y) + 2
+            });
+        };
+        segment(from, corner);
+        segment(corner, to);
+    }
+}
+
+// Manhattan-style grid of 2-wide streets; blocks are either buildings (wall
+// shell, floor inside, a couple of doorways) or open lots
+export class StreetGridGenerator implements MapGenerator {
+    public id = MapGeneratorId.StreetGrid;
+    public name = 'Street Grid';
+
+    public generate(world: World, rng: Rng) {
+        fillWalls(world);
+
+        const streetWidth = 2;
+        const columns = this.cuts(world.width, rng);
+        const rows = this.cuts(world.height, rng);
+
+        // Streets
+        for (const x of columns) carveRect(world, { x, y: 1, w: streetWidth, h: world.height - 2 });
+        for (const y of rows) carveRect(world, { x: 1, y, w: world.width - 2, h: streetWidth });
+
+        // Blocks between streets
+        const xs = [1, ...columns.map(c => c + streetWidth)];
+        const ys = [1, ...rows.map(r => r + streetWidth)];
+        const xEnds = [...columns, world.width - 1];
+        const yEnds = [...rows, world.height - 1];
+        for (let i = 0; i < xs.length; i++) {
+            for (let j = 0; j < ys.length; j++) {
+                const block = { x: xs[i], y: ys[j], w: xEnds[i] - xs[i], h: yEnds[j] - ys[j] };
+                if (block.w < 3 || block.h < 3) continue;
+                if (rng.next() < 0.2) {
+                    carveRect(world, block); // Open lot
+                } else {
+                    this.building(world, rng, block);
+                }
+            }
+        }
+
+        sprinkleIndestructible(world, rng, 0.15);
+        carveCityCenter(world);
+    }
+
+    // Street positions along one axis (blocks 6-9 tiles deep)
+    private cuts(size: number, rng: Rng): number[] {
+        const cuts: number[] = [];
+        let pos = 1 + 6 + randomInt(rng, 4);
+        while (pos < size - 1 - 6) {
+            cuts.push(pos);
+            pos += 2 + 6 + randomInt(rng, 4);
+        }
+        return cuts;
+    }
+
+    private building(world: World, rng: Rng, block: Rect) {
+        // Interior (the wall shell stays)
+        carveRect(world, { x: block.x + 1, y: block.y + 1, w: block.w - 2, h: block.h - 2 });
+
+        // Doorways onto the street
+        const doors = 1 + randomInt(rng, 2);
+        for (let i = 0; i < doors; i++) {
+            const side = randomPick(rng, ['top', 'bottom', 'left', 'right'] as const);
+            if (side === 'top' || side === 'bottom') {
+                const x = block.x + 1 + randomInt(rng, block.w - 2);
+                const y = side === 'top' ? block.y : block.y + block.h - 1;
+                carveRect(world, { x, y, w: 1, h: 1 });
+            } else {
+                const y = block.y + 1 + randomInt(rng, block.h - 2);
+                const x = side === 'left' ? block.x : block.x + block.w - 1;
+                carveRect(world, { x, y, w: 1, h: 1 });
+            }
+        }
+    }
+}
+
+export const MAP_GENERATORS: Record<MapGeneratorId, MapGenerator> = {
+    [MapGeneratorId.Kowloon]: new KowloonGenerator(),
+    [MapGeneratorId.CityBlocks]: new CityBlocksGenerator(),
+    [MapGeneratorId.StreetGrid]: new StreetGridGenerator()
+};
@@ -0,0 +1,75 @@
+import { DEFAULT_BOT_SKILL } from './Entities';
+import { isWeaponType, WEAPONS } from './Weapons';
+import type { WeaponType } from './Weapons';
+import type { BotSkill } from './Entities';
+import { MapGeneratorId } from './MapGenerators';
+
+export const Difficulty = {
+    Easy: 'easy',
+    Normal: 'normal',
+    Hard: 'hard'
+} as const;
+
+export type Difficulty = typeof Difficulty[keyof typeof Difficulty];
+
+export const BOT_SKILLS: Record<Difficulty, BotSkill> = {
+    [Difficulty.Easy]: { spread: 1.8, drawDelay: 4.0, sightRange: 500 },
+    [Difficulty.Normal]: DEFAULT_BOT_SKILL,
+    [Difficulty.Hard]: { spread: 0.6, drawDelay: 1.5, sightRange: 850 }
+};
+
+// Everything a match is set up from (the main menu builds one)
+export interface MatchConfig {
+    width: number; // Tiles (generated maps only; handcrafted maps bring their own size)
+    height: number;
+    mapGenerator: MapGeneratorId;
+    seed: number | null; // Fixed map, or null to roll a new one every match
+    npcCount: number;
+    difficulty: Difficulty;
+    lootDensity: number; // Weapon crates per 1000 tiles
+    potionDensity: number; // Potions per 1000 tiles
+    weapons: WeaponType[]; // What crates can contain
+    loadout: WeaponType | null; // Player's starting weapon
+}
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+    width: 50,
+    height: 50,
+    mapGenerator: MapGeneratorId.Kowloon,
+    seed: null,
+    npcCount: 15,
+    difficulty: Difficulty.Normal,
+    lootDensity: 7.2, // 18 crates on 50x50
+    potionDensity: 1.6, // 4 potions on 50x50
+    weapons: Object.keys(WEAPONS),
+    loadout: null
+};
+
+export const MAP_SIZE_RANGE = { min: 30, max: 120 };
+export const NPC_COUNT_RANGE = { min: 1, max: 40 };
+export const DENSITY_RANGE = { min: 0, max: 20 };
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+
+// Fill gaps with defaults and pull everything into range (e.g. a config from a
+// URL or an old replay)
+export function normalizeMatchConfig(raw: Partial<MatchConfig> = {}): MatchConfig {
+    const d = DEFAULT_MATCH_CONFIG;
+    const weapons = Array.isArray(raw.weapons) ? raw.weapons.filter(isWeaponType) : d.weapons;
+    const generators = Object.values(MapGeneratorId) as string[];
+    const difficulties = Object.values(Difficulty) as string[];
+    return {
+        width: Math.round(clamp(raw.width, MAP_SIZE_RANGE.min, MAP_SIZE_RANGE.max, d.width)),
+        height: Math.round(clamp(raw.height, MAP_SIZE_RANGE.min, MAP_SIZE_RANGE.max, d.height)),
+        mapGenerator: raw.mapGenerator && generators.includes(raw.mapGenerator) ? raw.mapGenerator : d.mapGenerator,
+        seed: typeof raw.seed === 'number' && Number.isFinite(raw.seed) ? raw.seed >>> 0 : null,
+        npcCount: Math.round(clamp(raw.npcCount, NPC_COUNT_RANGE.min, NPC_COUNT_RANGE.max, d.npcCount)),
+        difficulty: raw.difficulty && difficulties.includes(raw.difficulty) ? raw.difficulty : d.difficulty,
+        lootDensity: clamp(raw.lootDensity, DENSITY_RANGE.min, DENSITY_RANGE.max, d.lootDensity),
+        potionDensity: clamp(raw.potionDensity, DENSITY_RANGE.min, DENSITY_RANGE.max, d.potionDensity),
+        // Crates need something to hold
+        weapons: weapons.length > 0 ? [...new Set(weapons)] : d.weapons,
+        loadout: isWeaponType(raw.loadout) ? raw.loadout : null
+    };
+}
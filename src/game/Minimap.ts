@@ -0,0 +1,92 @@
+import { TileType } from './World';
+import type { World } from './World';
+import type { WeaponType } from './Weapons';
+
+export const MinimapCell = {
+    OPEN: 0,
+    WALL: 1,
+    INDESTRUCTIBLE: 2,
+    HOUSE: 3
+} as const;
+
+export type MinimapCell = typeof MinimapCell[keyof typeof MinimapCell];
+
+// Dynamic overlay for the map, in tile units (fractions allowed)
+export interface MinimapState {
+    worldWidth: number;
+    worldHeight: number;
+    player: { x: number, y: number, rotation: number, isDead: boolean };
+    cityHouseRect: { x: number, y: number, w: number, h: number };
+    loot: { x: number, y: number, weapon: WeaponType }[]; // Only what the player has spotted
+    potions: { x: number, y: number }[];
+    swiftHalo: { x: number, y: number } | null;
+    shots: { x: number, y: number, age: number }[]; // Gunfire heard lately; age runs 0..1 as it fades
+    zone: { x: number, y: number, radius: number, targetX: number, targetY: number, targetRadius: number } | null;
+}
+
+// Downsampled copy of World.tiles for the minimap. Each cell covers
+// cellSize x cellSize tiles and shows whatever most of them are. Tile changes
+// are applied one cell at a time and queued so renderers can repaint just those.
+export class MinimapGrid {
+    public readonly width: number;
+    public readonly height: number;
+    public readonly cellSize: number;
+    public readonly cells: Uint8Array; // Row-major: cells[y * width + x]
+    private world: World;
+    private dirty = new Set<number>();
+
+    constructor(world: World, cellSize: number = 1) {
+        this.world = world;
+        this.cellSize = cellSize;
+        this.width = Math.ceil(world.width / cellSize);
+        this.height = Math.ceil(world.height / cellSize);
+        this.cells = new Uint8Array(this.width * this.height);
+        for (let y = 0; y < this.height; y++) {
+            for (let x = 0; x < this.width; x++) {
+                this.cells[y * this.width + x] = this.sampleCell(x, y);
+            }
+        }
+    }
+
+    // Call when tile (x, y) changes
+    public updateTile(x: number, y: number) {
+        const cx = Math.floor(x / this.cellSize);
+        const cy = Math.floor(y / this.cellSize);
+        if (cx < 0 || cx >= this.width || cy < 0 || cy >= this.height) return;
+        const i = cy * this.width + cx;
+        const value = this.sampleCell(cx, cy);
+        if (this.cells[i] === value) return;
+        this.cells[i] = value;
+        this.dirty.add(i);
+    }
+
+    // Indices of cells changed since the last call
+    public takeDirty(): number[] {
+        const changed = [...this.dirty];
+        this.dirty.clear();
+        return changed;
+    }
+
+    private sampleCell(cx: number, cy: number): MinimapCell {
+        const counts = [0, 0, 0, 0];
+        for (let x = cx * this.cellSize; x < Math.min((cx + 1) * this.cellSize, this.world.width); x++) {
+            for (let y = cy * this.cellSize; y < Math.min((cy + 1) * this.cellSize, this.world.height); y++) {
+                counts[this.classify(this.world.tiles[x][y])]++;
+            }
+        }
+        let best: MinimapCell = MinimapCell.OPEN;
+        for (let c = 1; c < counts.length; c++) {
+            if (counts[c] > counts[best]) best = c as MinimapCell;
+        }
+        return best;
+    }
+
+    private classify(tile: TileType): MinimapCell {
+        switch (tile) {
+            case TileType.WALL: return MinimapCell.WALL;
+            case TileType.INDESTRUCTIBLE_WALL: return MinimapCell.INDESTRUCTIBLE;
+            case TileType.CITY_HOUSE_FLOOR: return MinimapCell.HOUSE;
+            default: return MinimapCell.OPEN;
+        }
+    }
+}
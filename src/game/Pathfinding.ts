@@ -0,0 +1,282 @@
+import { TileType } from './World';
+import type { World } from './World';
+
+export interface PathOptions {
+    // Allow routing through destructible WALL tiles (at WALL_BREACH_COST each)
+    allowWallBreach?: boolean;
+}
+
+export type TilePoint = { x: number, y: number };
+
+const SQRT2 = Math.SQRT2;
+const OPEN_COST = 1;
+const WALL_HUG_COST = 1.5; // Floor touching a wall: prefer open streets
+const WALL_BREACH_COST = 8;
+const CACHE_SIZE = 64;
+// Half a body in tiles (20px radius on 40px tiles), a hair under so a
+// one-tile corridor still counts as clear
+const BODY_CLEARANCE = 0.45;
+
+// 8-way neighbours: orthogonal first (diagonals check them for corner cutting)
+const DIRS = [
+    { x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 },
+    { x: 1, y: 1 }, { x: 1, y: -1 }, { x: -1, y: 1 }, { x: -1, y: -1 }
+];
+
+// Binary min-heap of node indices. Priorities are stored alongside the nodes so
+// re-pushing a node with a better score (lazy decrease-key) keeps the heap valid.
+class NodeHeap {
+    private nodes: Int32Array;
+    private priorities: Float32Array;
+    private size = 0;
+
+    constructor(capacity: number) {
+        this.nodes = new Int32Array(capacity);
+        this.priorities = new Float32Array(capacity);
+    }
+
+    public get length(): number {
+        return this.size;
+    }
+
+    public clear() {
+        this.size = 0;
+    }
+
+    public push(node: number, priority: number) {
+        if (this.size === this.nodes.length) {
+            const nodes = new Int32Array(this.nodes.length * 2);
+            const priorities = new Float32Array(this.priorities.length * 2);
+            nodes.set(this.nodes);
+            priorities.set(this.priorities);
+            this.nodes = nodes;
+            this.priorities = priorities;
+        }
+        let i = this.size++;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.priorities[parent] <= priority) break;
+            this.nodes[i] = this.nodes[parent];
+            this.priorities[i] = this.priorities[parent];
+            i = parent;
+        }
+        this.nodes[i] = node;
+        this.priorities[i] = priority;
+    }
+
+    public pop(): number {
+        const top = this.nodes[0];
+        const size = --this.size;
+        const lastNode = this.nodes[size];
+        const lastPriority = this.priorities[size];
+        let i = 0;
+        while (true) {
+            let child = i * 2 + 1;
+            if (child >= size) break;
+            if (child + 1 < size && this.priorities[child + 1] < this.priorities[child]) child++;
+            if (this.priorities[child] >= lastPriority) break;
+            this.nodes[i] = this.nodes[child];
+            this.priorities[i] = this.priorities[child];
+            i = child;
+        }
+        this.nodes[i] = lastNode;
+        this.priorities[i] = lastPriority;
+        return top;
+    }
+}
+
+// A* over the tile grid with diagonal moves (no corner cutting), weighted
+// tiles, line-of-sight smoothing and a small start/goal cache that is dropped
+// whenever the world's tiles change.
+export class Pathfinder {
+    private world: World;
+    private size: number;
+    private gScore: Float32Array;
+    private cameFrom: Int32Array;
+    private stamp: Uint32Array; // Node is "touched" in this search when stamp === searchId
+    private closed: Uint32Array;
+    private searchId = 0;
+    private heap: NodeHeap;
+    private costs: Float32Array; // Base traversal cost per tile (Infinity = blocked)
+    private costsRevision = -1;
+    private cache = new Map<number, TilePoint[] | null>();
+    private cacheRevision = -1;
+
+    constructor(world: World) {
+        this.world = world;
+        this.size = world.width * world.height;
+        this.gScore = new Float32Array(this.size);
+        this.cameFrom = new Int32Array(this.size);
+        this.stamp = new Uint32Array(this.size);
+        this.closed = new Uint32Array(this.size);
+        this.costs = new Float32Array(this.size);
+        this.heap = new NodeHeap(256);
+    }
+
+    // Cost of entering a tile (Infinity if impassable)
+    public tileCost(x: number, y: number, options: PathOptions = {}): number {
+        if (x < 0 || x >= this.world.width || y < 0 || y >= this.world.height) return Infinity;
+        this.refreshCosts();
+        const tile = this.world.tiles[x][y];
+        if (tile === TileType.WALL) return options.allowWallBreach ? WALL_BREACH_COST : Infinity;
+        return this.costs[y * this.world.width + x];
+    }
+
+    // Tile path from start to goal (both included), or null if unreachable
+    public findPath(start: TilePoint, goal: TilePoint, options: PathOptions = {}): TilePoint[] | null {
+        const w = this.world.width;
+        if (this.cacheRevision !== this.world.revision) {
+            this.cache.clear();
+            this.cacheRevision = this.world.revision;
+        }
+
+        const startIdx = start.y * w + start.x;
+        const goalIdx = goal.y * w + goal.x;
+        const key = (startIdx * this.size + goalIdx) * 2 + (options.allowWallBreach ? 1 : 0);
+        if (this.cache.has(key)) {
+            const hit = this.cache.get(key)!;
+            // Refresh LRU position
+            this.cache.delete(key);
+            this.cache.set(key, hit);
+            return hit ? hit.map(p => ({ ...p })) : null;
+        }
+
+        const raw = this.search(start, goal, options);
+        const path = raw ? this.smooth(raw) : null;
+
+        this.cache.set(key, path);
+        if (this.cache.size > CACHE_SIZE) {
+            this.cache.delete(this.cache.keys().next().value!);
+        }
+        return path ? path.map(p => ({ ...p })) : null;
+    }
+
+    // A body walking straight between tile centers stays on walkable tiles:
+    // the center line and both edges of the strip it sweeps are checked, so
+    // a shortcut can't clip a wall corner
+    public hasClearLine(a: TilePoint, b: TilePoint): boolean {
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const length = Math.sqrt(dx * dx + dy * dy);
+        if (length === 0) return this.world.isWalkable(a.x, a.y);
+        const nx = -dy / length * BODY_CLEARANCE;
+        const ny = dx / length * BODY_CLEARANCE;
+        for (const side of [0, 1, -1]) {
+            const ox = 0.5 + nx * side;
+            const oy = 0.5 + ny * side;
+            if (!this.world.hasLineOfSight({ x: a.x + ox, y: a.y + oy }, { x: b.x + ox, y: b.y + oy }, 1)) return false;
+        }
+        return true;
+    }
+
+    private search(start: TilePoint, goal: TilePoint, options: PathOptions): TilePoint[] | null {
+        const w = this.world.width;
+        const h = this.world.height;
+        const inBounds = (p: TilePoint) => p.x >= 0 && p.x < w && p.y >= 0 && p.y < h;
+        if (!inBounds(start) || !inBounds(goal)) return null;
+        if (!Number.isFinite(this.tileCost(goal.x, goal.y, options))) return null;
+
+        this.searchId++;
+        if (this.searchId === 0xFFFFFFFF) {
+            this.stamp.fill(0);
+            this.closed.fill(0);
+            this.searchId = 1;
+        }
+        const id = this.searchId;
+        const startIdx = start.y * w + start.x;
+        const goalIdx = goal.y * w + goal.x;
+
+        this.heap.clear();
+        this.stamp[startIdx] = id;
+        this.gScore[startIdx] = 0;
+        this.cameFrom[startIdx] = -1;
+        this.heap.push(startIdx, this.heuristic(start.x, start.y, goal.x, goal.y));
+
+        while (this.heap.length > 0) {
+            const current = this.heap.pop();
+            if (this.closed[current] === id) continue; // Stale heap entry
+            this.closed[current] = id;
+
+            if (current === goalIdx) {
+                const path: TilePoint[] = [];
+                for (let n = current; n !== -1; n = this.cameFrom[n]) {
+                    path.push({ x: n % w, y: Math.floor(n / w) });
+                }
+                return path.reverse();
+            }
+
+            const cx = current % w;
+            const cy = Math.floor(current / w);
+            for (let d = 0; d < DIRS.length; d++) {
+                const nx = cx + DIRS[d].x;
+                const ny = cy + DIRS[d].y;
+                const cost = this.tileCost(nx, ny, options);
+                if (!Number.isFinite(cost)) continue;
+
+                const diagonal = d >= 4;
+                // No corner cutting: both orthogonal neighbours must be open floor
+                if (diagonal && (!this.world.isWalkable(nx, cy) || !this.world.isWalkable(cx, ny))) continue;
+
+                const next = ny * w + nx;
+                if (this.closed[next] === id) continue;
+
+                const g = this.gScore[current] + cost * (diagonal ? SQRT2 : 1);
+                if (this.stamp[next] !== id || g < this.gScore[next]) {
+                    this.stamp[next] = id;
+                    this.gScore[next] = g;
+                    this.cameFrom[next] = current;
+                    this.heap.push(next, g + this.heuristic(nx, ny, goal.x, goal.y));
+                }
+            }
+        }
+        return null;
+    }
+
+    // Octile distance (admissible: no tile is cheaper than OPEN_COST)
+    private heuristic(x: number, y: number, gx: number, gy: number): number {
+        const dx = Math.abs(x - gx);
+        const dy = Math.abs(y - gy);
+        return OPEN_COST * (dx + dy + (SQRT2 - 2) * Math.min(dx, dy));
+    }
+
+    // String pulling: from each anchor, jump to the furthest node still in
+    // line of sight. Never smooths across a breached wall.
+    private smooth(path: TilePoint[]): TilePoint[] {
+        if (path.length <= 2) return path;
+        const result: TilePoint[] = [path[0]];
+        let anchor = 0;
+        while (anchor < path.length - 1) {
+            let next = anchor + 1;
+            for (let i = path.length - 1; i > anchor + 1; i--) {
+                if (this.hasClearLine(path[anchor], path[i])) {
+                    next = i;
+                    break;
+                }
+            }
+            result.push(path[next]);
+            anchor = next;
+        }
+        return result;
+    }
+
+    private refreshCosts() {
+        if (this.costsRevision === this.world.revision) return;
+        this.costsRevision = this.world.revision;
+        const w = this.world.width;
+        for (let x = 0; x < w; x++) {
+            for (let y = 0; y < this.world.height; y++) {
+                let cost = Infinity;
+                if (this.world.isWalkable(x, y)) {
+                    cost = OPEN_COST;
+                    for (const d of DIRS) {
+                        if (!this.world.isWalkable(x + d.x, y + d.y)) {
+                            cost = WALL_HUG_COST;
+                            break;
+                        }
+                    }
+                }
+                this.costs[y * w + x] = cost;
+            }
+        }
+    }
+}
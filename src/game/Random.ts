@@ -0,0 +1,79 @@
+// Injectable random source. Anything that needs reproducible output takes an Rng
+// instead of calling Math.random() directly.
+export interface Rng {
+    next(): number; // [0, 1)
+}
+
+// Mulberry32: small, fast and good enough for gameplay
+export class SeededRng implements Rng {
+    public readonly seed: number;
+    private state: number;
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
+
+export function randomInt(rng: Rng, max: number): number {
+    return Math.floor(rng.next() * max);
+}
+
+export function randomPick<T>(rng: Rng, items: readonly T[]): T {
+    return items[randomInt(rng, items.length)];
+}
+
+// Fresh seed for a new match (one of the only places allowed to use Math.random)
+export function createSeed(): number {
+    return Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+}
+
+// Not reproducible: for callers that have not been handed a seeded stream
+export const unseededRng: Rng = {
+    next: () => Math.random()
+};
+
+// Independent stream from the same seed (e.g. map vs. spawns) so adding draws
+// to one system does not shift the results of another
+export function deriveSeed(seed: number, stream: number): number {
+    let h = (seed ^ Math.imul(stream + 1, 0x9E3779B1)) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+    h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+    return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Streams a match draws from (the map itself uses the seed directly)
+export const RngStream = {
+    SPAWN: 1, // Initial placements and loot choice
+    ZONE: 2, // Storm path
+    GAMEPLAY: 3, // Everything decided during play: spread, bot wandering, ...
+    VISUAL: 4 // Effects only (particles); never affects the outcome
+} as const;
+
+export type RngStream = typeof RngStream[keyof typeof RngStream];
+
+// All randomness of one match, derived from its seed. Two matches with the
+// same seed and the same inputs draw the same numbers in the same order.
+export class MatchRandom {
+    public readonly seed: number;
+    public readonly spawn: Rng;
+    public readonly zone: Rng;
+    public readonly gameplay: Rng;
+    public readonly visual: Rng;
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.spawn = new SeededRng(deriveSeed(this.seed, RngStream.SPAWN));
+        this.zone = new SeededRng(deriveSeed(this.seed, RngStream.ZONE));
+        this.gameplay = new SeededRng(deriveSeed(this.seed, RngStream.GAMEPLAY));
+        this.visual = new SeededRng(deriveSeed(this.seed, RngStream.VISUAL));
+    }
+}
@@ -0,0 +1,237 @@
+import type { Rng } from './Random';
+import { validateMapData } from './MapData';
+import type { MapData } from './MapData';
+import { normalizeMatchConfig } from './MatchConfig';
+import type { MatchConfig } from './MatchConfig';
+import { Simulation } from './Simulation';
+import type { PlayerCommand } from './Simulation';
+
+// Bump on breaking changes to the file layout
+export const REPLAY_FORMAT_VERSION = 1;
+
+// Recorded draws are quantized to 16 bits (the live match sees the same
+// quantized values) to keep files small
+const DRAW_RESOLUTION = 65536;
+
+const CommandFlag = {
+    SHOOT: 1,
+    RELOAD: 2,
+    DASH: 4,
+    DROP: 8,
+    INTERACT: 16,
+    NEXT_SLOT: 32,
+    PREV_SLOT: 64
+} as const;
+
+// A picked inventory slot is stored as slot + 1 in the bits above the flags
+// (0 = none), so recordings without slot switching decode unchanged
+const SLOT_SHIFT = 7;
+const SLOT_MASK = 0b111;
+
+// Held throw, above the slot bits
+const THROW_FLAG = 1 << 10;
+
+// One simulation tick: [moveX, moveY, aim, CommandFlag bits, throw distance,
+// gameplay RNG draws in the order they were made]
+export type ReplayTick = [number, number, number | null, number, number, number[]];
+
+export interface Replay {
+    version: number;
+    seed: number;
+    config: MatchConfig; // Bot difficulty, loadout, ...
+    map: MapData; // Layout and placements at match start, so no spawn logic has to be re-run
+    isMobile: boolean; // Bots aim worse against touch players
+    ticks: ReplayTick[];
+}
+
+function encodeCommand(command: PlayerCommand, draws: number[]): ReplayTick {
+    let flags = 0;
+    if (command.shoot) flags |= CommandFlag.SHOOT;
+    if (command.reload) flags |= CommandFlag.RELOAD;
+    if (command.dash) flags |= CommandFlag.DASH;
+    if (command.drop) flags |= CommandFlag.DROP;
+    if (command.interact) flags |= CommandFlag.INTERACT;
+    if (command.cycleSlot > 0) flags |= CommandFlag.NEXT_SLOT;
+    if (command.cycleSlot < 0) flags |= CommandFlag.PREV_SLOT;
+    if (command.slot !== null) flags |= (command.slot + 1) << SLOT_SHIFT;
+    if (command.throw) flags |= THROW_FLAG;
+    return [command.move.x, command.move.y, command.aim, flags, command.throwDistance, draws];
+}
+
+function decodeCommand(tick: ReplayTick): PlayerCommand {
+    const [x, y, aim, flags, throwDistance] = tick;
+    const slot = (flags >> SLOT_SHIFT) & SLOT_MASK;
+    return {
+        move: { x, y },
+        aim,
+        shoot: (flags & CommandFlag.SHOOT) !== 0,
+        reload: (flags & CommandFlag.RELOAD) !== 0,
+        dash: (flags & CommandFlag.DASH) !== 0,
+        drop: (flags & CommandFlag.DROP) !== 0,
+        interact: (flags & CommandFlag.INTERACT) !== 0,
+        slot: slot === 0 ? null : slot - 1,
+        cycleSlot: (flags & CommandFlag.NEXT_SLOT ? 1 : 0) - (flags & CommandFlag.PREV_SLOT ? 1 : 0),
+        throw: (flags & THROW_FLAG) !== 0,
+        throwDistance
+    };
+}
+
+export function serializeReplay(replay: Replay): string {
+    return JSON.stringify(replay);
+}
+
+export function parseReplay(text: string): Replay {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (e) {
+        throw new Error(`Invalid replay: ${(e as Error).message}`);
+    }
+    if (typeof raw !== 'object' || raw === null) throw new Error('Invalid replay: expected an object');
+    const data = raw as Partial<Replay>;
+
+    if (typeof data.version !== 'number') throw new Error('Invalid replay: missing version');
+    if (data.version > REPLAY_FORMAT_VERSION) {
+        throw new Error(`Unsupported replay version ${data.version} (this build reads up to ${REPLAY_FORMAT_VERSION})`);
+    }
+    if (typeof data.seed !== 'number') throw new Error('Invalid replay: missing seed');
+    if (typeof data.isMobile !== 'boolean') throw new Error('Invalid replay: missing isMobile');
+    if (!Array.isArray(data.ticks)) throw new Error('Invalid replay: missing ticks');
+    const badTick = data.ticks.findIndex(t =>
+        !Array.isArray(t) || t.length !== 6 ||
+        typeof t[0] !== 'number' || typeof t[1] !== 'number' ||
+        (t[2] !== null && typeof t[2] !== 'number') ||
+        typeof t[3] !== 'number' || typeof t[4] !== 'number' ||
+        !Array.isArray(t[5]) || t[5].some(d => typeof d !== 'number')
+    );
+    if (badTick !== -1) throw new Error(`Invalid replay: malformed tick #${badTick}`);
+
+    return {
+        version: REPLAY_FORMAT_VERSION,
+        seed: data.seed,
+        config: normalizeMatchConfig(data.config),
+        map: validateMapData(data.map),
+        isMobile: data.isMobile,
+        ticks: data.ticks
+    };
+}
+
+// Records one match of a Simulation. Gameplay randomness is routed through the
+// recorder so playback can feed back exactly what was seen.
+export class ReplayRecorder {
+    private simulation: Simulation;
+    private seed: number;
+    private config: MatchConfig;
+    private map: MapData;
+    private isMobile: boolean;
+    private source: Rng; // What the simulation used before recording
+    private recordingRng: Rng;
+    private finished = false;
+    private ticks: ReplayTick[] = [];
+    private draws: number[] = [];
+
+    constructor(simulation: Simulation) {
+        this.simulation = simulation;
+        this.seed = simulation.seed;
+        this.config = simulation.config;
+        this.map = simulation.exportMap();
+        this.isMobile = simulation.isMobile;
+        this.source = simulation.random;
+
+        this.recordingRng = {
+            next: () => {
+                const n = Math.floor(this.source.next() * DRAW_RESOLUTION);
+                this.draws.push(n);
+                return n / DRAW_RESOLUTION;
+            }
+        };
+        simulation.random = this.recordingRng;
+        simulation.onTick = (command) => {
+            if (this.finished) return;
+            this.ticks.push(encodeCommand(command, this.draws));
+            this.draws = [];
+            // Nothing after the final tick changes the outcome
+            this.finished = simulation.isOver;
+        };
+    }
+
+    // Hand the simulation its own randomness back (unless a reset already replaced it)
+    public dispose() {
+        if (this.simulation.random === this.recordingRng) this.simulation.random = this.source;
+        this.simulation.onTick = undefined;
+    }
+
+    public toReplay(): Replay {
+        return {
+            version: REPLAY_FORMAT_VERSION,
+            seed: this.seed,
+            config: structuredClone(this.config),
+            map: structuredClone(this.map),
+            isMobile: this.isMobile,
+            ticks: this.ticks.slice()
+        };
+    }
+}
+
+// Re-simulates a recorded match. Seeking backwards rebuilds the Simulation
+// from the start, so callers should re-read `simulation` after seek().
+export class ReplayPlayback {
+    public readonly replay: Replay;
+    public simulation: Simulation;
+    public desynced = false; // Ran out of recorded draws: the replay no longer matches the match
+    private position = 0;
+    private draws: number[] = [];
+    private drawIndex = 0;
+
+    constructor(replay: Replay) {
+        this.replay = replay;
+        this.simulation = this.createSimulation();
+    }
+
+    public get tick(): number {
+        return this.position;
+    }
+
+    public get length(): number {
+        return this.replay.ticks.length;
+    }
+
+    public get isFinished(): boolean {
+        return this.position >= this.replay.ticks.length;
+    }
+
+    // Advance one recorded tick; false at the end of the recording
+    public step(): boolean {
+        if (this.isFinished) return false;
+        const tick = this.replay.ticks[this.position++];
+        this.draws = tick[5];
+        this.drawIndex = 0;
+        this.simulation.step(decodeCommand(tick));
+        return true;
+    }
+
+    public seek(tick: number) {
+        const target = Math.max(0, Math.min(this.length, Math.floor(tick)));
+        if (target < this.position) {
+            this.position = 0;
+            this.desynced = false;
+            this.simulation = this.createSimulation();
+        }
+        while (this.position < target) this.step();
+    }
+
+    private createSimulation(): Simulation {
+        const simulation = new Simulation(this.replay.config, this.replay.seed);
+        const random: Rng = {
+            next: () => {
+                if (this.drawIndex < this.draws.length) return this.draws[this.drawIndex++] / DRAW_RESOLUTION;
+                this.desynced = true;
+                return Math.random();
+            }
+        };
+        simulation.isMobile = this.replay.isMobile;
+        simulation.loadMap(this.replay.map);
+        simulation.random = random; // After loadMap, which reseeds it
+        return simulation;
+    }
+}
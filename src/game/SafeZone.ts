@@ -0,0 +1,174 @@
+import type { Vector2 } from './types';
+import type { Rng } from './Random';
+
+export interface ZonePhase {
+    delay: number; // Seconds the circle holds before shrinking
+    shrinkTime: number; // Seconds to shrink to the next circle
+    radiusFraction: number; // Target radius relative to the starting circle
+    damagePerSecond: number; // Applied outside the circle from this phase on
+}
+
+export const ZONE_PHASES: ZonePhase[] = [
+    { delay: 60, shrinkTime: 30, radiusFraction: 0.6, damagePerSecond: 1 },
+    { delay: 45, shrinkTime: 25, radiusFraction: 0.35, damagePerSecond: 2 },
+    { delay: 30, shrinkTime: 20, radiusFraction: 0.18, damagePerSecond: 5 },
+    { delay: 20, shrinkTime: 15, radiusFraction: 0.07, damagePerSecond: 10 },
+    { delay: 15, shrinkTime: 15, radiusFraction: 0, damagePerSecond: 20 }
+];
+
+export type ZoneState = 'WAITING' | 'SHRINKING' | 'CLOSED';
+
+// Battle-royale storm: a circle that shrinks in timed phases toward random
+// points. Everything outside it takes escalating damage.
+export class SafeZone {
+    public center: Vector2;
+    public radius: number;
+    public targetCenter: Vector2; // Where the current/next shrink ends up
+    public targetRadius: number;
+    public phaseIndex: number = 0;
+    public state: ZoneState = 'WAITING';
+    public phaseTimer: number; // Seconds left in the current WAITING/SHRINKING step
+
+    private phases: ZonePhase[];
+    private rng: Rng;
+    private startRadius: number;
+    private worldSize: Vector2;
+    private shrinkFrom: { center: Vector2, radius: number };
+
+    constructor(worldWidth: number, worldHeight: number, rng: Rng, phases: ZonePhase[] = ZONE_PHASES) {
+        this.rng = rng;
+        this.phases = phases;
+        this.worldSize = { x: worldWidth, y: worldHeight };
+        // Start by covering the whole map
+        this.center = { x: worldWidth / 2, y: worldHeight / 2 };
+        this.startRadius = Math.sqrt(worldWidth ** 2 + worldHeight ** 2) / 2;
+        this.radius = this.startRadius;
+        this.shrinkFrom = { center: { ...this.center }, radius: this.radius };
+        this.targetCenter = { ...this.center };
+        this.targetRadius = this.radius;
+        this.phaseTimer = phases.length > 0 ? phases[0].delay : 0;
+        if (phases.length > 0) {
+            this.pickTarget();
+        } else {
+            this.state = 'CLOSED';
+        }
+    }
+
+    // Damage per second outside the circle (0 before the first shrink starts)
+    public get damagePerSecond(): number {
+        if (this.phaseIndex === 0 && this.state === 'WAITING') return 0;
+        const phase = this.phases[Math.min(this.phaseIndex, this.phases.length - 1)];
+        return phase.damagePerSecond;
+    }
+
+    public update(dt: number) {
+        if (this.state === 'CLOSED') return;
+
+        this.phaseTimer -= dt;
+        const phase = this.phases[this.phaseIndex];
+
+        if (this.state === 'WAITING') {
+            if (this.phaseTimer <= 0) {
+                this.state = 'SHRINKING';
+                this.phaseTimer += phase.shrinkTime;
+                this.shrinkFrom = { center: { ...this.center }, radius: this.radius };
+            }
+        }
+
+        if (this.state === 'SHRINKING') {
+            const t = phase.shrinkTime > 0 ? Math.min(1, 1 - this.phaseTimer / phase.shrinkTime) : 1;
+            this.center.x = this.shrinkFrom.center.x + (this.targetCenter.x - this.shrinkFrom.center.x) * t;
+            this.center.y = this.shrinkFrom.center.y + (this.targetCenter.y - this.shrinkFrom.center.y) * t;
+            this.radius = this.shrinkFrom.radius + (this.targetRadius - this.shrinkFrom.radius) * t;
+
+            if (this.phaseTimer <= 0) {
+                this.phaseIndex++;
+                if (this.phaseIndex >= this.phases.length) {
+                    this.state = 'CLOSED';
+                    this.phaseIndex = this.phases.length - 1;
+                    this.phaseTimer = 0;
+                } else {
+                    this.state = 'WAITING';
+                    this.phaseTimer += this.phases[this.phaseIndex].delay;
+                    this.pickTarget();
+                }
+            }
+        }
+    }
+
+    public contains(pos: Vector2, margin: number = 0): boolean {
+        return this.distanceToCenter(pos, this.center) + margin <= this.radius;
+    }
+
+    // Inside the circle the zone is shrinking toward (bots pre-rotate into it)
+    public targetContains(pos: Vector2, margin: number = 0): boolean {
+        return this.distanceToCenter(pos, this.targetCenter) + margin <= this.targetRadius;
+    }
+
+    // Bots should head in: outside the next circle and the storm is moving (or about to)
+    public needsRotation(pos: Vector2, margin: number = 0): boolean {
+        if (this.state === 'CLOSED') return !this.contains(pos, margin);
+        const imminent = this.state === 'SHRINKING' || this.phaseTimer < 20;
+        return (imminent && !this.targetContains(pos, margin)) || !this.contains(pos);
+    }
+
+    // Distance to the safe edge (0 when inside)
+    public distanceOutside(pos: Vector2): number {
+        return Math.max(0, this.distanceToCenter(pos, this.center) - this.radius);
+    }
+
+    public render(ctx: CanvasRenderingContext2D, camera: Vector2, viewW: number, viewH: number) {
+        ctx.save();
+
+        // Storm: everything in view except the safe circle
+        ctx.beginPath();
+        ctx.rect(camera.x, camera.y, viewW, viewH);
+        ctx.arc(this.center.x, this.center.y, Math.max(0, this.radius), 0, Math.PI * 2, true);
+        ctx.fillStyle = 'rgba(124, 58, 237, 0.25)'; // Violet
+        ctx.fill('evenodd');
+
+        // Safe edge
+        ctx.strokeStyle = 'rgba(167, 139, 250, 0.9)';
+        ctx.lineWidth = 4;
+        ctx.beginPath();
+        ctx.arc(this.center.x, this.center.y, Math.max(0, this.radius), 0, Math.PI * 2);
+        ctx.stroke();
+
+        // Next circle
+        if (this.state !== 'CLOSED') {
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+            ctx.lineWidth = 2;
+            ctx.setLineDash([12, 8]);
+            ctx.beginPath();
+            ctx.arc(this.targetCenter.x, this.targetCenter.y, Math.max(0, this.targetRadius), 0, Math.PI * 2);
+            ctx.stroke();
+        }
+
+        ctx.restore();
+    }
+
+    // Next circle lies fully inside the current one, offset toward a random
+    // point that is still on the map
+    private pickTarget() {
+        const phase = this.phases[this.phaseIndex];
+        const newRadius = this.startRadius * phase.radiusFraction;
+        const maxOffset = Math.max(0, this.radius - newRadius);
+
+        this.targetCenter = { ...this.center };
+        for (let i = 0; i < 20; i++) {
+            const angle = this.rng.next() * Math.PI * 2;
+            const dist = Math.sqrt(this.rng.next()) * maxOffset;
+            const x = this.center.x + Math.cos(angle) * dist;
+            const y = this.center.y + Math.sin(angle) * dist;
+            if (x > 0 && x < this.worldSize.x && y > 0 && y < this.worldSize.y) {
+                this.targetCenter = { x, y };
+                break;
+            }
+        }
+        this.targetRadius = newRadius;
+    }
+
+    private distanceToCenter(pos: Vector2, center: Vector2): number {
+        return Math.sqrt((pos.x - center.x) ** 2 + (pos.y - center.y) ** 2);
+    }
+}
@@ -0,0 +1,50 @@
+import { DEFAULT_BINDINGS, normalizeBindings } from './Input';
+import type { Bindings } from './Input';
+
+// How shooting works on touch screens
+export const TouchScheme = {
+    TAP: 'tap', // Tap or hold the screen where you want to shoot
+    TWIN_STICK: 'twinStick' // Right-hand stick aims, and fires when pushed far enough
+} as const;
+
+export type TouchScheme = typeof TouchScheme[keyof typeof TouchScheme];
+
+// Player preferences, kept in localStorage between sessions
+export interface Settings {
+    volume: number; // 0..1
+    bindings: Bindings;
+    touchScheme: TouchScheme;
+    aimAssist: boolean; // Nudge stick aim onto visible enemies
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+    volume: 0.8,
+    bindings: DEFAULT_BINDINGS,
+    touchScheme: TouchScheme.TAP,
+    aimAssist: true
+};
+
+const STORAGE_KEY = 'videogame-anti-one.settings';
+
+// Unknown or malformed fields fall back to the defaults
+export function loadSettings(): Settings {
+    try {
+        const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+        const settings = { ...DEFAULT_SETTINGS };
+        if (typeof raw.volume === 'number') settings.volume = Math.max(0, Math.min(1, raw.volume));
+        settings.bindings = normalizeBindings(raw.bindings);
+        if (Object.values(TouchScheme).includes(raw.touchScheme)) settings.touchScheme = raw.touchScheme;
+        if (typeof raw.aimAssist === 'boolean') settings.aimAssist = raw.aimAssist;
+        return settings;
+    } catch {
+        return { ...DEFAULT_SETTINGS };
+    }
+}
+
+export function saveSettings(settings: Settings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // Storage full or disabled: settings just won't persist
+    }
+}
@@ -0,0 +1,996 @@
+import type { Vector2 } from './types';
+import { World, TILE_SIZE, TileType } from './World';
+import { Player, Bullet, Loot, AmmoBox, AttachmentPickup, ThrowablePickup, Grenade, SmokeCloud, Explosion, Particle, Potion, SwiftHalo, THROW_RANGE, newWeaponSlot } from './Entities';
+import { AMMO, AmmoType, Attachment, RARITIES, Rarity, THROWABLES, ThrowableType, WEAPONS } from './Weapons';
+import type { WeaponType } from './Weapons';
+import { MatchRandom, createSeed, randomPick } from './Random';
+import type { Rng } from './Random';
+import type { MapData } from './MapData';
+import { MAP_GENERATORS } from './MapGenerators';
+import type { MapGeneratorId } from './MapGenerators';
+import { BOT_SKILLS, DEFAULT_MATCH_CONFIG, normalizeMatchConfig } from './MatchConfig';
+import type { MatchConfig } from './MatchConfig';
+import { SafeZone } from './SafeZone';
+import { GameClock } from './GameClock';
+import { segmentCircleHit } from './Geometry';
+
+// Simulation runs at a fixed rate regardless of how often it is rendered
+export const TICK_RATE = 60;
+export const FIXED_DT = 1 / TICK_RATE;
+
+// How far past touching a weapon on the ground can be swapped for (px)
+const INTERACT_RANGE = 30;
+
+// Ammo boxes spawn this far from their weapon crate (px, under half a tile)
+const AMMO_BOX_OFFSET = 16;
+
+// Share of a round's damage left after punching through a wall tile
+const WALL_PENETRATION_DAMAGE = 0.7;
+
+// Ricochets restart just off the wall face so they don't hit it again (px)
+const RICOCHET_OFFSET = 0.01;
+
+// Grenades and attachments on the ground, as a share of the weapon crates
+const THROWABLE_SHARE = 0.5;
+const ATTACHMENT_SHARE = 0.3;
+
+// How far an unsuppressed shot carries, and how long a bot with nothing
+// better to do goes looking for where it came from
+const HEARING_RANGE = 25 * TILE_SIZE;
+const HEARD_SHOT_MEMORY = 3;
+
+// A flashbang going off behind you still dazzles, for this share of the time
+const FLASH_FACING_AWAY = 0.5;
+
+// Melee hits; a dash strike does DASH_STRIKE_MULTIPLIER times both
+const MELEE_DAMAGE = 25;
+const MELEE_KNOCKBACK = 450; // px/s
+const DASH_STRIKE_MULTIPLIER = 2;
+
+// What the local player wants to do this tick (built from keyboard/mouse/touch
+// by the Engine, or scripted in headless runs)
+export interface PlayerCommand {
+    move: Vector2; // Desired direction, length <= 1 (+y is down)
+    aim: number | null; // Facing in radians; null keeps the current rotation
+    shoot: boolean;
+    reload: boolean;
+    dash: boolean;
+    drop: boolean; // Pressed this tick
+    interact: boolean; // Pressed this tick: pick up or swap for nearby loot
+    slot: number | null; // Inventory slot picked this tick (number keys)
+    cycleSlot: number; // -1 / 1 steps to the previous / next weapon, 0 stays
+    throw: boolean; // Held: cooks the grenade, which flies on release
+    throwDistance: number; // Where a grenade let go this tick should land, px ahead (clamped to THROW_RANGE)
+}
+
+export const IDLE_COMMAND: PlayerCommand = {
+    move: { x: 0, y: 0 },
+    aim: null,
+    shoot: false,
+    reload: false,
+    dash: false,
+    drop: false,
+    interact: false,
+    slot: null,
+    cycleSlot: 0,
+    throw: false,
+    throwDistance: THROW_RANGE
+};
+
+// Things the presentation layer may want to react to (sound, UI)
+export type SimulationEvent =
+    | { type: 'shoot', shooter: Player, weapon: WeaponType, suppressed: boolean }
+    | { type: 'explosion', position: Vector2 }
+    | { type: 'melee', position: Vector2 } // A punch landed
+    | { type: 'potion', entity: Player }
+    | { type: 'kill' } // The player killed a bot
+    | { type: 'death' } // The player died
+    | { type: 'victory' }; // Last one standing
+
+// Match state and rules with no DOM, canvas or audio, so whole matches can
+// run in Node. The browser Engine wraps this with input, rendering and sound.
+export class Simulation {
+    public world: World;
+    public seed: number;
+    public config: MatchConfig; // Changes take effect on the next reset
+    public player: Player;
+    public npcs: Player[] = [];
+    public bullets: Bullet[] = [];
+    public loot: Loot[] = [];
+    public ammoBoxes: AmmoBox[] = [];
+    public throwables: ThrowablePickup[] = [];
+    public attachments: AttachmentPickup[] = [];
+    public grenades: Grenade[] = [];
+    public smokes: SmokeCloud[] = [];
+    public potions: Potion[] = [];
+    public swiftHalo: SwiftHalo | null = null;
+    public zone: SafeZone;
+    public explosions: Explosion[] = [];
+    public particles: Particle[] = [];
+    public isMobile: boolean = false; // Bots aim worse against touch players
+    public tickCount: number = 0; // Ticks since the match started
+
+    public random: Rng; // Gameplay stream (spread, bot wandering); reseeded every match, swappable for replays
+    public readonly clock: GameClock = new GameClock(); // Match time; restarts at 0 every match
+
+    public onEvent?: (event: SimulationEvent) => void;
+    public onTick?: (command: PlayerCommand) => void; // After each step
+
+    private rng: MatchRandom;
+    private playerRng: Rng = { next: () => this.random.next() }; // Follows `random` even after it is swapped
+    private customMap: MapData | null = null; // Handcrafted arena replacing the generator
+    private matchMap: MapData; // Layout as it was at match start (for export)
+
+    // Stopwatch (match time the last opponent fell)
+    private gameEndTime: number | null = null;
+
+    private throwWasHeld = false; // Last tick's command.throw, so a held key cooks one grenade
+
+    constructor(config: MatchConfig = DEFAULT_MATCH_CONFIG, seed: number = config.seed ?? createSeed()) {
+        this.config = normalizeMatchConfig(config);
+        this.seed = seed;
+        this.rng = new MatchRandom(seed);
+        this.random = this.rng.gameplay;
+        this.world = this.generateWorld();
+
+        // Spawn Player in Safe Zone (with the configured loadout)
+        this.player = this.spawnPlayer();
+
+        // Initial Loot
+        this.spawnLoot();
+        this.spawnAmmo();
+        this.spawnThrowables();
+        this.spawnAttachments();
+        this.spawnPotions();
+        this.spawnSwiftHalo();
+
+        // Initial NPCs
+        this.spawnNPCs(this.config.npcCount);
+
+        this.zone = this.createZone();
+        this.matchMap = this.world.toData();
+    }
+
+    // Match over: the player died or nobody else is left
+    public get isOver(): boolean {
+        return this.player.isDead || this.npcs.length === 0;
+    }
+
+    // Used for the next generated map
+    public get mapGenerator(): MapGeneratorId {
+        return this.config.mapGenerator;
+    }
+
+    // Milliseconds on the match stopwatch
+    public get elapsedTime(): number {
+        return (this.gameEndTime ?? this.clock.now) * 1000;
+    }
+
+    public reset(seed: number = createSeed()) {
+        this.seed = seed;
+        this.rng = new MatchRandom(seed);
+        this.random = this.rng.gameplay;
+        this.world = this.customMap ? World.fromData(this.customMap) : this.generateWorld();
+
+        this.player = this.spawnPlayer();
+
+        this.npcs = [];
+        this.bullets = [];
+        this.loot = [];
+        this.ammoBoxes = [];
+        this.throwables = [];
+        this.attachments = [];
+        this.grenades = [];
+        this.smokes = [];
+        this.potions = [];
+        this.swiftHalo = null;
+        this.explosions = [];
+        this.particles = [];
+
+        // Handcrafted maps place whatever their markers specify; anything left
+        // unspecified falls back to random placement
+        const markers = this.world.markers;
+        const hasLoot = markers.loot.length > 0;
+        const hasPotions = markers.potions.length > 0;
+        const hasNPCs = markers.npcSpawns.length > 0;
+        if (hasLoot) this.placeMarkedLoot(); else this.spawnLoot();
+        if (markers.ammo.length > 0) this.placeMarkedAmmo(); else this.spawnAmmo();
+        if (markers.throwables.length > 0) this.placeMarkedThrowables(); else this.spawnThrowables();
+        if (markers.attachments.length > 0) this.placeMarkedAttachments(); else this.spawnAttachments();
+        if (hasPotions) this.placeMarkedPotions(); else this.spawnPotions();
+        this.spawnSwiftHalo();
+        if (hasNPCs) this.placeMarkedNPCs(); else this.spawnNPCs(this.config.npcCount);
+        this.zone = this.createZone();
+        this.matchMap = this.world.toData();
+        this.tickCount = 0;
+        this.clock.reset();
+        this.gameEndTime = null;
+        this.throwWasHeld = false;
+    }
+
+    // Takes effect on the next reset
+    public setConfig(config: MatchConfig) {
+        this.config = normalizeMatchConfig(config);
+    }
+
+    // Takes effect on the next reset
+    public setMapGenerator(id: MapGeneratorId) {
+        this.config = { ...this.config, mapGenerator: id };
+    }
+
+    // Load a handcrafted arena (or null to go back to generated maps) and restart on it
+    public loadMap(data: MapData | null) {
+        if (data) World.fromData(data); // Validate before committing to it
+        this.customMap = data;
+        this.reset(this.seed);
+    }
+
+    public exportMap(name?: string): MapData {
+        return { ...structuredClone(this.matchMap), name };
+    }
+
+    // Advance one fixed tick (nothing happens while the clock is paused)
+    public step(command: PlayerCommand = IDLE_COMMAND) {
+        if (this.clock.paused) return;
+        for (const e of [this.player, ...this.npcs, ...this.bullets, ...this.grenades]) {
+            e.prevPosition.x = e.position.x;
+            e.prevPosition.y = e.position.y;
+        }
+        this.clock.advance(FIXED_DT);
+        this.update(FIXED_DT, command);
+        this.tickCount++;
+        if (this.onTick) this.onTick(command);
+    }
+
+    // Advance several ticks with the same command (e.g. an idle player in balance runs)
+    public run(ticks: number, command: PlayerCommand = IDLE_COMMAND) {
+        for (let i = 0; i < ticks; i++) {
+            this.step(command);
+        }
+    }
+
+    private emit(event: SimulationEvent) {
+        if (this.onEvent) this.onEvent(event);
+    }
+
+    private createZone(): SafeZone {
+        return new SafeZone(this.world.width * TILE_SIZE, this.world.height * TILE_SIZE, this.rng.zone);
+    }
+
+    private generateWorld(): World {
+        return new World(this.config.width, this.config.height, { seed: this.seed, generator: MAP_GENERATORS[this.config.mapGenerator] });
+    }
+
+    // Random spawns below record themselves into world.markers so an exported
+    // map reproduces the same placements
+    private spawnPlayer(): Player {
+        const spawn = this.world.markers.playerSpawn ?? { x: 5.5, y: 5.5 };
+        this.world.markers.playerSpawn = spawn;
+        const player = this.adopt(new Player(spawn.x * TILE_SIZE, spawn.y * TILE_SIZE));
+
+        // Starting weapon (unarmed unless the match gives a loadout) with a box of spares
+        if (this.config.loadout) {
+            player.giveWeapon(newWeaponSlot(this.config.loadout));
+            const ammoType = WEAPONS[this.config.loadout].ammoType;
+            player.addAmmo(ammoType, AMMO[ammoType].boxSize);
+        }
+        return player;
+    }
+
+    // Crates and potions scale with the map area
+    private densityCount(perThousandTiles: number): number {
+        return Math.round(perThousandTiles * this.world.width * this.world.height / 1000);
+    }
+
+    private spawnLoot() {
+        const count = this.densityCount(this.config.lootDensity);
+        for (let i = 0; i < count; i++) {
+            const pos = this.findValidSpawnPosition([], 0);
+            if (pos) {
+                const weapon = randomPick(this.rng.spawn, this.config.weapons);
+                const rarity = this.randomRarity();
+                this.loot.push(new Loot(pos.x, pos.y, newWeaponSlot(weapon, rarity)));
+                this.world.markers.loot.push({ x: pos.x / TILE_SIZE, y: pos.y / TILE_SIZE, weapon, rarity });
+            }
+        }
+    }
+
+    // Weighted by each tier's spawn weight
+    private randomRarity(): Rarity {
+        const tiers = Object.values(Rarity);
+        let roll = this.rng.spawn.next() * tiers.reduce((sum, r) => sum + RARITIES[r].weight, 0);
+        for (const r of tiers) {
+            roll -= RARITIES[r].weight;
+            if (roll < 0) return r;
+        }
+        return Rarity.Common;
+    }
+
+    // One box of matching ammo beside each weapon crate
+    private spawnAmmo() {
+        for (const l of this.loot) {
+            const angle = this.rng.spawn.next() * Math.PI * 2;
+            const x = l.position.x + Math.cos(angle) * AMMO_BOX_OFFSET;
+            const y = l.position.y + Math.sin(angle) * AMMO_BOX_OFFSET;
+            // Crates sit at tile centers, so this stays on the crate's (floor) tile
+            const ammoType = WEAPONS[l.weapon].ammoType;
+            this.ammoBoxes.push(new AmmoBox(x, y, ammoType));
+            this.world.markers.ammo.push({ x: x / TILE_SIZE, y: y / TILE_SIZE, ammoType });
+        }
+    }
+
+    private spawnThrowables() {
+        const count = this.densityCount(this.config.lootDensity * THROWABLE_SHARE);
+        const types = Object.values(ThrowableType);
+        for (let i = 0; i < count; i++) {
+            const pos = this.findValidSpawnPosition([], 0);
+            if (pos) {
+                const throwable = randomPick(this.rng.spawn, types);
+                this.throwables.push(new ThrowablePickup(pos.x, pos.y, throwable));
+                this.world.markers.throwables.push({ x: pos.x / TILE_SIZE, y: pos.y / TILE_SIZE, throwable });
+            }
+        }
+    }
+
+    private spawnAttachments() {
+        const count = this.densityCount(this.config.lootDensity * ATTACHMENT_SHARE);
+        const kinds = Object.values(Attachment);
+        for (let i = 0; i < count; i++) {
+            const pos = this.findValidSpawnPosition([], 0);
+            if (pos) {
+                const attachment = randomPick(this.rng.spawn, kinds);
+                this.attachments.push(new AttachmentPickup(pos.x, pos.y, attachment));
+                this.world.markers.attachments.push({ x: pos.x / TILE_SIZE, y: pos.y / TILE_SIZE, attachment });
+            }
+        }
+    }
+
+    private spawnPotions() {
+        const count = this.densityCount(this.config.potionDensity);
+        for (let i = 0; i < count; i++) {
+            const pos = this.findValidSpawnPosition([], 0);
+            if (pos) {
+                this.potions.push(new Potion(pos.x, pos.y));
+                this.world.markers.potions.push({ x: pos.x / TILE_SIZE, y: pos.y / TILE_SIZE });
+            }
+        }
+    }
+
+    private spawnSwiftHalo() {
+        // Spawn in City Center
+        const rect = this.world.cityHouseRect;
+        // Center of the house (unless the map places it)
+        const spot = this.world.markers.swiftHalo ?? { x: rect.x + rect.w / 2, y: rect.y + rect.h / 2 };
+        this.swiftHalo = new SwiftHalo(spot.x * TILE_SIZE, spot.y * TILE_SIZE);
+        this.world.markers.swiftHalo = spot;
+    }
+
+    private spawnNPCs(count: number) {
+        for (let i = 0; i < count; i++) {
+            // Avoid existing NPCs and Player
+            const avoid = [this.player, ...this.npcs];
+            const pos = this.findValidSpawnPosition(avoid, 5 * TILE_SIZE); // 5 tiles distance
+            if (pos) {
+                this.npcs.push(this.createNPC(pos.x, pos.y));
+                this.world.markers.npcSpawns.push({ x: pos.x / TILE_SIZE, y: pos.y / TILE_SIZE });
+            }
+        }
+    }
+
+    private createNPC(x: number, y: number): Player {
+        const npc = this.adopt(new Player(x, y, true));
+        npc.skill = BOT_SKILLS[this.config.difficulty]; // NPCs start unarmed
+        return npc;
+    }
+
+    // The closest weapon on the ground within interact range
+    public lootInReach(player: Player): Loot | null {
+        let nearest: Loot | null = null;
+        let minDist = player.radius + INTERACT_RANGE;
+        for (const l of this.loot) {
+            if (!l.active) continue;
+            const dist = Math.sqrt((l.position.x - player.position.x) ** 2 + (l.position.y - player.position.y) ** 2) - l.radius;
+            if (dist < minDist) {
+                minDist = dist;
+                nearest = l;
+            }
+        }
+        return nearest;
+    }
+
+    // Take a weapon off the ground; with full slots the one in hand is left in its place
+    private interact(player: Player) {
+        const l = this.lootInReach(player);
+        if (!l) return;
+        if (!player.giveWeapon(l.toSlot())) {
+            const held = player.takeActiveWeapon();
+            player.giveWeapon(l.toSlot());
+            if (held) this.loot.push(new Loot(l.position.x, l.position.y, held));
+        }
+        l.active = false;
+    }
+
+    // Players draw randomness and time from the simulation
+    private adopt(player: Player): Player {
+        player.rng = this.playerRng;
+        player.clock = this.clock;
+        return player;
+    }
+
+    // Handcrafted map placements
+    private placeMarkedLoot() {
+        this.world.markers.loot.forEach(l => this.loot.push(new Loot(l.x * TILE_SIZE, l.y * TILE_SIZE, newWeaponSlot(l.weapon, l.rarity))));
+    }
+
+    private placeMarkedAmmo() {
+        this.world.markers.ammo.forEach(a => this.ammoBoxes.push(new AmmoBox(a.x * TILE_SIZE, a.y * TILE_SIZE, a.ammoType)));
+    }
+
+    private placeMarkedThrowables() {
+        this.world.markers.throwables.forEach(t => this.throwables.push(new ThrowablePickup(t.x * TILE_SIZE, t.y * TILE_SIZE, t.throwable)));
+    }
+
+    private placeMarkedAttachments() {
+        this.world.markers.attachments.forEach(a => this.attachments.push(new AttachmentPickup(a.x * TILE_SIZE, a.y * TILE_SIZE, a.attachment)));
+    }
+
+    private placeMarkedPotions() {
+        this.world.markers.potions.forEach(p => this.potions.push(new Potion(p.x * TILE_SIZE, p.y * TILE_SIZE)));
+    }
+
+    private placeMarkedNPCs() {
+        this.world.markers.npcSpawns.forEach(p => this.npcs.push(this.createNPC(p.x * TILE_SIZE, p.y * TILE_SIZE)));
+    }
+
+    private findValidSpawnPosition(avoidEntities: { position: { x: number, y: number } }[] = [], minDist: number = 0): { x: number, y: number } | null {
+        for (let i = 0; i < 100; i++) {
+            const x = Math.floor(this.rng.spawn.next() * this.world.width);
+            const y = Math.floor(this.rng.spawn.next() * this.world.height);
+
+            // Check Wall
+            if (this.world.getTile(x, y) !== TileType.FLOOR) continue;
+
+            const worldX = x * TILE_SIZE + TILE_SIZE / 2;
+            const worldY = y * TILE_SIZE + TILE_SIZE / 2;
+
+            // Check Distance
+            let valid = true;
+            for (const entity of avoidEntities) {
+                const dist = Math.sqrt((worldX - entity.position.x) ** 2 + (worldY - entity.position.y) ** 2);
+                if (dist < minDist) {
+                    valid = false;
+                    break;
+                }
+            }
+
+            if (valid) {
+                return { x: worldX, y: worldY };
+            }
+        }
+        return null;
+    }
+
+    private update(dt: number, command: PlayerCommand) {
+        if (this.player.isDead) {
+            return;
+        }
+
+        // Player Input
+        // Reload
+        if (command.reload) {
+            this.player.reload();
+        }
+        // Dash
+        if (command.dash) {
+            if (this.player.dash()) {
+                this.spawnDashParticles(this.player);
+            }
+        }
+
+        // Weapon Switching
+        if (command.slot !== null) {
+            this.player.selectSlot(command.slot);
+        } else if (command.cycleSlot !== 0) {
+            this.player.cycleSlot(command.cycleSlot);
+        }
+        if (command.interact) {
+            this.interact(this.player);
+        }
+
+        // Drop Weapon
+        if (command.drop && this.player.weapon) {
+            // Throw forward
+            const throwDist = 50;
+            const dropX = this.player.position.x + Math.cos(this.player.rotation) * throwDist;
+            const dropY = this.player.position.y + Math.sin(this.player.rotation) * throwDist;
+
+            // Ensure drop is within bounds
+            const safeX = Math.max(TILE_SIZE, Math.min(dropX, this.world.width * TILE_SIZE - TILE_SIZE));
+            const safeY = Math.max(TILE_SIZE, Math.min(dropY, this.world.height * TILE_SIZE - TILE_SIZE));
+
+            const held = this.player.takeActiveWeapon()!;
+            this.loot.push(new Loot(safeX, safeY, held));
+        }
+
+        // Pressing throw pulls the pin
+        if (command.throw && !this.throwWasHeld) {
+            this.player.startCooking();
+        }
+        this.throwWasHeld = command.throw;
+
+        this.player.update(dt, this.world, command);
+
+        // Letting go throws; hold it too long and it goes off in hand
+        if (this.player.cookTime !== null && this.player.throwable) {
+            const fuse = THROWABLES[this.player.throwable].fuse;
+            if (!command.throw || this.player.cookTime >= fuse) {
+                const distance = Math.max(0, Math.min(THROW_RANGE, command.throwDistance));
+                const grenade = this.player.throwGrenade(command.throw ? 0 : distance);
+                if (grenade) this.grenades.push(grenade);
+            }
+        }
+
+        // Player Shooting (punching when unarmed)
+        if (command.shoot) {
+            if (!this.player.weapon) {
+                this.player.melee();
+            } else {
+                const newBullets = this.player.shoot();
+                if (newBullets) this.fireShot(this.player, newBullets);
+            }
+        }
+
+        // NPCs
+        const allPlayers = [this.player, ...this.npcs];
+        this.npcs.forEach(npc => {
+            // AI Logic
+            const newBullets = npc.updateAI(dt, this.world, this.loot, allPlayers, this.isMobile, this.potions, this.zone, this.ammoBoxes, this.smokes);
+            if (newBullets) this.fireShot(npc, newBullets);
+            const grenade = npc.updateThrow(this.world, allPlayers, this.smokes);
+            if (grenade) this.grenades.push(grenade);
+            npc.updateMelee(this.world, allPlayers, this.smokes);
+
+            npc.update(dt, this.world);
+        });
+
+        // Swings connect with whoever comes into reach while they last
+        allPlayers.forEach(p => {
+            if (p.meleeTimer > 0 && !p.isDead) this.resolveMelee(p);
+        });
+
+        // Update Bullets
+        for (let i = this.bullets.length - 1; i >= 0; i--) {
+            const b = this.bullets[i];
+            b.update(dt);
+            this.traceBullet(b);
+            if (b.isSpent) b.active = false;
+        }
+        this.bullets = this.bullets.filter(b => b.active);
+
+        // Grenades (a frag's explosion is applied below, this same tick)
+        this.grenades.forEach(g => {
+            g.update(dt, this.world);
+            if (g.fuse <= 0) this.detonate(g);
+        });
+        this.grenades = this.grenades.filter(g => g.active);
+
+        this.smokes.forEach(s => s.update(dt));
+        this.smokes = this.smokes.filter(s => s.active);
+
+        // Explosions
+        for (let i = this.explosions.length - 1; i >= 0; i--) {
+            const exp = this.explosions[i];
+            exp.update(dt);
+
+            // Damage Logic (Apply once)
+            if (exp.timeElapsed < dt * 1.5) {
+                // Check Player
+                const pDist = Math.sqrt((exp.position.x - this.player.position.x) ** 2 + (exp.position.y - this.player.position.y) ** 2);
+                if (pDist < exp.maxRadius) {
+                    this.damageEntity(this.player, 100 * (1 - pDist / exp.maxRadius), exp.owner);
+                }
+
+                // Check NPCs
+                this.npcs.forEach(npc => {
+                    const nDist = Math.sqrt((exp.position.x - npc.position.x) ** 2 + (exp.position.y - npc.position.y) ** 2);
+                    if (nDist < exp.maxRadius) {
+                        this.damageEntity(npc, 100 * (1 - nDist / exp.maxRadius), exp.owner);
+                    }
+                });
+
+                // Wall Damage
+                const ex = Math.floor(exp.position.x / TILE_SIZE);
+                const ey = Math.floor(exp.position.y / TILE_SIZE);
+                const range = Math.ceil(exp.maxRadius / TILE_SIZE);
+                for (let dx = -range; dx <= range; dx++) {
+                    for (let dy = -range; dy <= range; dy++) {
+                        this.world.damageWall(ex + dx, ey + dy, 50);
+                    }
+                }
+            }
+        }
+        this.explosions = this.explosions.filter(e => e.active);
+
+        // Loot
+        this.loot.forEach(l => {
+            if (l.active) {
+                const dist = Math.sqrt((l.position.x - this.player.position.x) ** 2 + (l.position.y - this.player.position.y) ** 2);
+                if (dist < this.player.radius + l.radius) {
+                    // Walking over loot fills a free slot; full hands need an interact to swap
+                    if (this.player.giveWeapon(l.toSlot())) {
+                        l.active = false;
+                    }
+                }
+
+                // NPCs pick up loot too!
+                this.npcs.forEach(npc => {
+                    const dist = Math.sqrt((l.position.x - npc.position.x) ** 2 + (l.position.y - npc.position.y) ** 2);
+                    if (l.active && dist < npc.radius + l.radius) {
+                        const wasUnarmed = npc.slots.every(s => s === null);
+                        if (npc.giveWeapon(l.toSlot())) {
+                            if (wasUnarmed) npc.weaponPickupTime = this.clock.now; // Record first pickup time
+                            l.active = false;
+                        }
+                    }
+                });
+            }
+        });
+        this.loot = this.loot.filter(l => l.active);
+
+        // Ammo Boxes (a box stays put with whatever a full pocket couldn't take)
+        this.ammoBoxes.forEach(box => {
+            for (const p of allPlayers) {
+                if (!box.active || p.isDead) continue;
+                const dist = Math.sqrt((box.position.x - p.position.x) ** 2 + (box.position.y - p.position.y) ** 2);
+                if (dist < p.radius + box.radius) {
+                    box.amount -= p.addAmmo(box.ammoType, box.amount);
+                    if (box.amount <= 0) box.active = false;
+                }
+            }
+        });
+        this.ammoBoxes = this.ammoBoxes.filter(b => b.active);
+
+        // Throwables (like ammo, whatever doesn't fit stays on the ground)
+        this.throwables.forEach(t => {
+            for (const p of allPlayers) {
+                if (!t.active || p.isDead) continue;
+                const dist = Math.sqrt((t.position.x - p.position.x) ** 2 + (t.position.y - p.position.y) ** 2);
+                if (dist < p.radius + t.radius) {
+                    t.count -= p.addThrowable(t.throwable, t.count);
+                    if (t.count <= 0) t.active = false;
+                }
+            }
+        });
+        this.throwables = this.throwables.filter(t => t.active);
+
+        // Attachments (fitted straight onto a gun that can take one)
+        this.attachments.forEach(a => {
+            for (const p of allPlayers) {
+                if (!a.active || p.isDead) continue;
+                const dist = Math.sqrt((a.position.x - p.position.x) ** 2 + (a.position.y - p.position.y) ** 2);
+                if (dist < p.radius + a.radius && p.addAttachment(a.attachment)) a.active = false;
+            }
+        });
+        this.attachments = this.attachments.filter(a => a.active);
+
+        // Potions
+        this.potions.forEach(p => {
+            if (p.active) {
+                // Check Player
+                const dist = Math.sqrt((p.position.x - this.player.position.x) ** 2 + (p.position.y - this.player.position.y) ** 2);
+                if (dist < this.player.radius + p.radius) {
+                    this.consumePotion(this.player, p);
+                }
+
+                // Check NPCs
+                this.npcs.forEach(npc => {
+                    if (p.active) { // Check again in case player took it
+                        const npcDist = Math.sqrt((p.position.x - npc.position.x) ** 2 + (p.position.y - npc.position.y) ** 2);
+                        if (npcDist < npc.radius + p.radius) {
+                            this.consumePotion(npc, p);
+                        }
+                    }
+                });
+            }
+        });
+        this.potions = this.potions.filter(p => p.active);
+
+        // Swift Halo
+        if (this.swiftHalo && this.swiftHalo.active) {
+            // Check Player
+            const dist = Math.sqrt((this.swiftHalo.position.x - this.player.position.x) ** 2 + (this.swiftHalo.position.y - this.player.position.y) ** 2);
+            if (dist < this.player.radius + this.swiftHalo.radius) {
+                this.swiftHalo.active = false;
+                this.player.hasHalo = true;
+                // Maybe spawn some particles?
+                this.spawnDashParticles(this.player);
+            }
+
+            // Check NPCs (Coincidence pickup)
+            if (this.swiftHalo.active) {
+                this.npcs.forEach(npc => {
+                    if (this.swiftHalo && this.swiftHalo.active) {
+                        const npcDist = Math.sqrt((this.swiftHalo.position.x - npc.position.x) ** 2 + (this.swiftHalo.position.y - npc.position.y) ** 2);
+                        if (npcDist < npc.radius + this.swiftHalo.radius) {
+                            this.swiftHalo.active = false;
+                            npc.hasHalo = true;
+                            this.spawnDashParticles(npc);
+                        }
+                    }
+                });
+            }
+        }
+
+        // Storm (only while the match is still being contested)
+        if (this.npcs.length > 0) {
+            this.zone.update(dt);
+            const stormDamage = this.zone.damagePerSecond * dt;
+            if (stormDamage > 0) {
+                allPlayers.forEach(p => {
+                    if (!p.isDead && !this.zone.contains(p.position)) {
+                        this.damageEntity(p, stormDamage, null);
+                    }
+                });
+            }
+        }
+
+        // Particles
+        this.particles.forEach(p => p.update(dt));
+        this.particles = this.particles.filter(p => p.life > 0);
+
+        // Cleanup Dead NPCs
+        this.npcs = this.npcs.filter(n => !n.isDead);
+
+        // Check Victory
+        if (this.npcs.length === 0 && !this.player.isDead && this.gameEndTime === null) {
+            this.gameEndTime = this.clock.now;
+            this.emit({ type: 'victory' });
+        }
+
+        // Regen
+        if (this.clock.now - this.player.lastDamageTime > 5) {
+            this.player.health = Math.min(this.player.maxHealth, this.player.health + dt * 2);
+        }
+    }
+
+    private damageEntity(entity: Player, amount: number, dealer: Player | null) {
+        entity.lastDamageTime = this.clock.now;
+
+        // Bots turn toward whoever shot them, even from out of sight
+        if (entity.isNPC && dealer && dealer !== entity) {
+            entity.target = { ...dealer.position };
+            entity.targetMemory = Math.max(entity.targetMemory, 2);
+        }
+
+        // Shield Absorb
+        if (entity.shield > 0) {
+            if (entity.shield >= amount) {
+                entity.shield -= amount;
+                return;
+            } else {
+                amount -= entity.shield;
+                entity.shield = 0;
+            }
+        }
+
+        entity.health -= amount;
+        if (entity.health <= 0) {
+            if (entity.isDead) return;
+            entity.isDead = true;
+            this.spawnBlood(entity.position.x, entity.position.y);
+            this.dropAmmo(entity);
+            this.dropThrowables(entity);
+
+            // Siphon (if player killed npc)
+            // CHECK: dealer === this.player
+            if (entity.isNPC && !this.player.isDead && !entity.siphoned && dealer === this.player) {
+                entity.siphoned = true;
+
+                // Trigger Kill Event
+                this.emit({ type: 'kill' });
+
+                const healAmount = 30;
+                const missingHealth = this.player.maxHealth - this.player.health;
+
+                if (healAmount > missingHealth) {
+                    this.player.health = this.player.maxHealth;
+                    const overflow = healAmount - missingHealth;
+                    this.player.shield = Math.min(50, this.player.shield + overflow);
+                } else {
+                    this.player.health += healAmount;
+                }
+            } else if (!entity.isNPC) {
+                // Player Died
+                if (this.gameEndTime === null) {
+                    this.gameEndTime = this.clock.now;
+                }
+                this.emit({ type: 'death' });
+            }
+        }
+    }
+
+    // Fly a bullet along this tick's path, resolving targets and walls in the
+    // order it reaches them so fast rounds can't skip through anything thin.
+    // Each pass ends at a wall; ricochets and penetration start another.
+    private traceBullet(b: Bullet) {
+        let from: Vector2 = { ...b.prevPosition };
+        let to: Vector2 = { ...b.position };
+
+        while (b.active) {
+            const wall = this.world.castRay(from, to, b.punchedWall);
+            const end = wall ? wall.point : to;
+            const length = Math.sqrt((end.x - from.x) ** 2 + (end.y - from.y) ** 2);
+
+            const hits = [this.player, ...this.npcs]
+                .filter(t => t !== b.owner && !t.isDead && !b.hitTargets.includes(t))
+                .map(t => ({ target: t, at: segmentCircleHit(from, end, t.position, t.radius + b.radius) }))
+                .filter((h): h is { target: Player, at: number } => h.at !== null)
+                .sort((p, q) => p.at - q.at);
+            for (const { target, at } of hits) {
+                const point = { x: from.x + (end.x - from.x) * at, y: from.y + (end.y - from.y) * at };
+                this.damageEntity(target, b.damageAt(length * at), b.owner);
+                b.hitTargets.push(target);
+                if (b.isRocket) {
+                    this.explosions.push(new Explosion(point.x, point.y, b.owner));
+                    this.emit({ type: 'explosion', position: { ...point } });
+                }
+                if (b.isRocket || b.pierceLeft === 0) {
+                    b.active = false;
+                    b.position = point;
+                    return;
+                }
+                b.pierceLeft--;
+            }
+            b.traveled += length;
+            if (!wall) break;
+
+            if (wall.tile === TileType.INDESTRUCTIBLE_WALL && b.ricochetsLeft > 0 && !b.isRocket) {
+                // Bounce off the face and spend the rest of this tick's flight on the way back
+                b.ricochetsLeft--;
+                const remaining = Math.sqrt((to.x - end.x) ** 2 + (to.y - end.y) ** 2);
+                if (wall.normal.x !== 0) b.velocity.x = -b.velocity.x; else b.velocity.y = -b.velocity.y;
+                const speed = Math.sqrt(b.velocity.x ** 2 + b.velocity.y ** 2);
+                from = { x: end.x + wall.normal.x * RICOCHET_OFFSET, y: end.y + wall.normal.y * RICOCHET_OFFSET };
+                to = { x: from.x + b.velocity.x / speed * remaining, y: from.y + b.velocity.y / speed * remaining };
+                b.punchedWall = null;
+                continue;
+            }
+
+            if (wall.tile === TileType.WALL) {
+                this.world.damageWall(wall.tileX, wall.tileY, b.stats.wallDamage);
+                if (b.wallsLeft > 0 && !b.isRocket) {
+                    b.wallsLeft--;
+                    b.damage *= WALL_PENETRATION_DAMAGE;
+                    from = end;
+                    b.punchedWall = { x: wall.tileX, y: wall.tileY };
+                    continue;
+                }
+            }
+
+            b.active = false;
+            b.position = end;
+            if (b.isRocket) this.explosions.push(new Explosion(end.x, end.y, b.owner));
+            return;
+        }
+        b.position = to;
+    }
+
+    // Unless suppressed, a shot is heard: bots not already hunting someone go
+    // to see who fired, and the player's map shows it
+    private fireShot(shooter: Player, bullets: Bullet[]) {
+        this.bullets.push(...bullets);
+        const stats = shooter.stats;
+        if (!shooter.weapon || !stats) return;
+        const suppressed = stats.suppressed === true;
+        this.emit({ type: 'shoot', shooter, weapon: shooter.weapon, suppressed });
+        if (suppressed) return;
+
+        for (const npc of this.npcs) {
+            if (npc === shooter || npc.isDead || npc.target) continue;
+            const dist = Math.sqrt((npc.position.x - shooter.position.x) ** 2 + (npc.position.y - shooter.position.y) ** 2);
+            if (dist > HEARING_RANGE) continue;
+            npc.target = { ...shooter.position };
+            npc.targetMemory = HEARD_SHOT_MEMORY;
+        }
+    }
+
+    private resolveMelee(attacker: Player) {
+        const multiplier = attacker.meleeCombo ? DASH_STRIKE_MULTIPLIER : 1;
+        for (const target of [this.player, ...this.npcs]) {
+            if (target === attacker || target.isDead || attacker.meleeHits.includes(target)) continue;
+            if (!attacker.inMeleeReach(target) || !this.world.hasLineOfSight(attacker.position, target.position)) continue;
+            attacker.meleeHits.push(target);
+
+            // Shove straight away from the attacker
+            const dx = target.position.x - attacker.position.x;
+            const dy = target.position.y - attacker.position.y;
+            const dist = Math.max(1, Math.sqrt(dx * dx + dy * dy));
+            target.knockback = { x: dx / dist * MELEE_KNOCKBACK * multiplier, y: dy / dist * MELEE_KNOCKBACK * multiplier };
+            this.damageEntity(target, MELEE_DAMAGE * multiplier, attacker);
+            this.emit({ type: 'melee', position: { ...target.position } });
+        }
+    }
+
+    // Frag: the usual explosion, sized to the grenade. Smoke: a cloud that
+    // blocks sight. Flash: blinds everyone in view of it, worst up close and
+    // facing it.
+    private detonate(g: Grenade) {
+        g.active = false;
+        const stats = THROWABLES[g.type];
+        const { x, y } = g.position;
+        switch (g.type) {
+            case ThrowableType.Frag:
+                this.explosions.push(new Explosion(x, y, g.owner, stats.radius));
+                this.emit({ type: 'explosion', position: { x, y } });
+                break;
+            case ThrowableType.Smoke:
+                this.smokes.push(new SmokeCloud(x, y, stats.radius, stats.duration));
+                break;
+            case ThrowableType.Flash:
+                for (const p of [this.player, ...this.npcs]) {
+                    if (p.isDead) continue;
+                    const dx = x - p.position.x;
+                    const dy = y - p.position.y;
+                    const dist = Math.sqrt(dx * dx + dy * dy);
+                    if (dist >= stats.radius || !this.world.hasLineOfSight(g.position, p.position)) continue;
+                    if (this.smokes.some(s => s.blocks(g.position, p.position))) continue;
+                    const facing = Math.cos(Math.atan2(dy, dx) - p.rotation) > 0;
+                    const blind = stats.duration * (1 - dist / stats.radius) * (facing ? 1 : FLASH_FACING_AWAY);
+                    p.blindTimer = Math.max(p.blindTimer, blind);
+                }
+                this.emit({ type: 'explosion', position: { x, y } });
+                break;
+        }
+    }
+
+    // The dead leave their spare rounds in a ring around the body
+    private dropAmmo(entity: Player) {
+        const drops = Object.values(AmmoType).filter(type => entity.reserveAmmo[type] > 0);
+        drops.forEach((type, i) => {
+            const angle = (i / drops.length) * Math.PI * 2;
+            const x = entity.position.x + Math.cos(angle) * AMMO_BOX_OFFSET;
+            const y = entity.position.y + Math.sin(angle) * AMMO_BOX_OFFSET;
+            this.ammoBoxes.push(new AmmoBox(x, y, type, entity.reserveAmmo[type]));
+            entity.reserveAmmo[type] = 0;
+        });
+    }
+
+    // A grenade cooking in a dying hand still goes off; the rest are left on the body
+    private dropThrowables(entity: Player) {
+        const cooked = entity.throwGrenade(0);
+        if (cooked) this.grenades.push(cooked);
+        if (entity.throwable) {
+            this.throwables.push(new ThrowablePickup(entity.position.x, entity.position.y, entity.throwable, entity.throwableCount));
+            entity.throwable = null;
+            entity.throwableCount = 0;
+        }
+    }
+
+    private consumePotion(entity: Player, potion: Potion) {
+        potion.active = false;
+        this.emit({ type: 'potion', entity });
+        const healAmount = 50;
+        const missingHealth = entity.maxHealth - entity.health;
+
+        if (healAmount > missingHealth) {
+            entity.health = entity.maxHealth;
+            const overflow = healAmount - missingHealth;
+            entity.shield = Math.min(entity.maxShield, entity.shield + overflow);
+        } else {
+            entity.health += healAmount;
+        }
+    }
+
+    private spawnBlood(x: number, y: number) {
+        for (let i = 0; i < 40; i++) {
+            this.particles.push(new Particle(x, y, '#FF0000', this.rng.visual));
+        }
+    }
+
+    private spawnDashParticles(player: Player) {
+        for (let i = 0; i < 10; i++) {
+            this.particles.push(new Particle(player.position.x, player.position.y, '#FFFFFF', this.rng.visual));
+        }
+    }
+}
+
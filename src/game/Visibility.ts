@@ -0,0 +1,134 @@
+import type { Vector2 } from './types';
+import { TILE_SIZE } from './World';
+import type { World } from './World';
+
+// Octant transforms for shadowcasting: [xx, xy, yx, yy]
+const OCTANTS = [
+    [1, 0, 0, 1], [0, 1, 1, 0], [0, -1, 1, 0], [-1, 0, 0, 1],
+    [-1, 0, 0, -1], [0, -1, -1, 0], [0, 1, -1, 0], [1, 0, 0, -1]
+];
+
+const FOG_EXPLORED = 'rgba(0, 0, 0, 0.6)'; // Seen before, not in sight now
+const FOG_UNEXPLORED = 'rgba(0, 0, 0, 0.88)';
+
+// Player field of view over World.tiles (recursive shadowcasting). Walls stop
+// sight but are themselves lit, so the edges of what you see stay readable.
+export class Visibility {
+    private width: number;
+    private height: number;
+    private visible: Uint8Array;
+    private explored: Uint8Array; // Tiles seen at least once this match
+    private world: World | null = null;
+    private originX = 0;
+    private originY = 0;
+    private radius = 0;
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.visible = new Uint8Array(width * height);
+        this.explored = new Uint8Array(width * height);
+    }
+
+    // Recompute from a pixel position; radius is in tiles
+    public compute(world: World, origin: Vector2, radius: number) {
+        this.world = world;
+        this.originX = Math.floor(origin.x / TILE_SIZE);
+        this.originY = Math.floor(origin.y / TILE_SIZE);
+        this.radius = radius;
+        this.visible.fill(0);
+
+        this.reveal(this.originX, this.originY);
+        for (const [xx, xy, yx, yy] of OCTANTS) {
+            this.castLight(1, 1.0, 0.0, xx, xy, yx, yy);
+        }
+    }
+
+    public isTileVisible(x: number, y: number): boolean {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return false;
+        return this.visible[y * this.width + x] === 1;
+    }
+
+    // Pixel position
+    public isVisible(pos: Vector2): boolean {
+        return this.isTileVisible(Math.floor(pos.x / TILE_SIZE), Math.floor(pos.y / TILE_SIZE));
+    }
+
+    // Darken every tile in view that is out of sight (world space, camera transform applied)
+    public render(ctx: CanvasRenderingContext2D, camera: Vector2, viewW: number, viewH: number) {
+        const startX = Math.floor(camera.x / TILE_SIZE);
+        const endX = Math.floor((camera.x + viewW) / TILE_SIZE) + 1;
+        const startY = Math.floor(camera.y / TILE_SIZE);
+        const endY = Math.floor((camera.y + viewH) / TILE_SIZE) + 1;
+
+        // Batch into one path per shade instead of a fill per tile
+        const explored = new Path2D();
+        const unexplored = new Path2D();
+        for (let x = startX; x < endX; x++) {
+            for (let y = startY; y < endY; y++) {
+                if (this.isTileVisible(x, y)) continue;
+                const seen = x >= 0 && x < this.width && y >= 0 && y < this.height && this.explored[y * this.width + x] === 1;
+                (seen ? explored : unexplored).rect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+            }
+        }
+
+        ctx.save();
+        ctx.fillStyle = FOG_EXPLORED;
+        ctx.fill(explored);
+        ctx.fillStyle = FOG_UNEXPLORED;
+        ctx.fill(unexplored);
+        ctx.restore();
+    }
+
+    private reveal(x: number, y: number) {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return;
+        const i = y * this.width + x;
+        this.visible[i] = 1;
+        this.explored[i] = 1;
+    }
+
+    private blocksSight(x: number, y: number): boolean {
+        return !this.world!.isWalkable(x, y);
+    }
+
+    // Scan one octant row by row, narrowing the [start, end] slope window
+    // around walls and recursing past each one
+    private castLight(row: number, start: number, end: number, xx: number, xy: number, yx: number, yy: number) {
+        if (start < end) return;
+        const radiusSq = this.radius * this.radius;
+        let newStart = 0;
+
+        for (let j = row; j <= this.radius; j++) {
+            let dx = -j - 1;
+            const dy = -j;
+            let blocked = false;
+
+            while (dx <= 0) {
+                dx++;
+                const x = this.originX + dx * xx + dy * xy;
+                const y = this.originY + dx * yx + dy * yy;
+                const leftSlope = (dx - 0.5) / (dy + 0.5);
+                const rightSlope = (dx + 0.5) / (dy - 0.5);
+
+                if (start < rightSlope) continue;
+                if (end > leftSlope) break;
+
+                if (dx * dx + dy * dy <= radiusSq) this.reveal(x, y);
+
+                if (blocked) {
+                    if (this.blocksSight(x, y)) {
+                        newStart = rightSlope;
+                        continue;
+                    }
+                    blocked = false;
+                    start = newStart;
+                } else if (this.blocksSight(x, y) && j < this.radius) {
+                    blocked = true;
+                    this.castLight(j + 1, start, leftSlope, xx, xy, yx, yy);
+                    newStart = rightSlope;
+                }
+            }
+            if (blocked) break;
+        }
+    }
+}
@@ -0,0 +1,297 @@
+import weaponData from './weapons.json';
+
+// Weapon ids are the keys of weapons.json, so any string can name one; these
+// are the built-in weapons the code refers to directly
+export const WeaponType = {
+    SMG: 'SMG',
+    AssaultRifle: 'Assault Rifle',
+    Shotgun: 'Shotgun',
+    Sniper: 'Sniper Rifle',
+    RocketLauncher: 'Rocket Launcher'
+} as const;
+
+export type WeaponType = string;
+
+// Weapons of a class share a reserve pool
+export const AmmoType = {
+    Light: 'Light',
+    Rifle: 'Rifle',
+    Shells: 'Shells',
+    Sniper: 'Sniper',
+    Rocket: 'Rocket'
+} as const;
+
+export type AmmoType = typeof AmmoType[keyof typeof AmmoType];
+
+export interface AmmoStats {
+    color: string;
+    boxSize: number; // Rounds in an ammo box
+    maxReserve: number; // Most a player can carry
+}
+
+export const AMMO: Record<AmmoType, AmmoStats> = {
+    [AmmoType.Light]: { color: '#CCCCCC', boxSize: 50, maxReserve: 150 },
+    [AmmoType.Rifle]: { color: '#4444FF', boxSize: 40, maxReserve: 120 },
+    [AmmoType.Shells]: { color: '#FF4444', boxSize: 12, maxReserve: 32 },
+    [AmmoType.Sniper]: { color: '#44FF44', boxSize: 8, maxReserve: 20 },
+    [AmmoType.Rocket]: { color: '#FFAA00', boxSize: 3, maxReserve: 6 }
+};
+
+// What goes in the throwable slot; a player carries one kind at a time
+export const ThrowableType = {
+    Frag: 'Frag Grenade',
+    Smoke: 'Smoke Grenade',
+    Flash: 'Flashbang'
+} as const;
+
+export type ThrowableType = typeof ThrowableType[keyof typeof ThrowableType];
+
+export interface ThrowableStats {
+    color: string;
+    fuse: number; // Seconds from pulling the pin (cooking included) to going off
+    radius: number; // Blast, cloud or blinding radius (px)
+    duration: number; // Seconds a smoke cloud lingers / longest a flash blinds
+    maxCarry: number;
+}
+
+export const THROWABLES: Record<ThrowableType, ThrowableStats> = {
+    [ThrowableType.Frag]: { color: '#6B8E23', fuse: 2.5, radius: 110, duration: 0, maxCarry: 3 },
+    [ThrowableType.Smoke]: { color: '#AAAAAA', fuse: 1.5, radius: 120, duration: 10, maxCarry: 2 },
+    [ThrowableType.Flash]: { color: '#FFFFFF', fuse: 1.5, radius: 250, duration: 3, maxCarry: 2 }
+};
+
+// Loot quality; better guns hit harder, hold more and reload faster
+export const Rarity = {
+    Common: 'Common',
+    Uncommon: 'Uncommon',
+    Rare: 'Rare',
+    Epic: 'Epic',
+    Legendary: 'Legendary'
+} as const;
+
+export type Rarity = typeof Rarity[keyof typeof Rarity];
+
+export interface RarityStats {
+    color: string;
+    damage: number; // Multipliers on the weapon's own stats
+    magSize: number;
+    reloadTime: number;
+    weight: number; // Relative chance of spawning
+}
+
+export const RARITIES: Record<Rarity, RarityStats> = {
+    [Rarity.Common]: { color: '#B0B0B0', damage: 1, magSize: 1, reloadTime: 1, weight: 50 },
+    [Rarity.Uncommon]: { color: '#4ADE80', damage: 1.1, magSize: 1.1, reloadTime: 0.95, weight: 25 },
+    [Rarity.Rare]: { color: '#60A5FA', damage: 1.2, magSize: 1.2, reloadTime: 0.9, weight: 14 },
+    [Rarity.Epic]: { color: '#C084FC', damage: 1.3, magSize: 1.35, reloadTime: 0.85, weight: 8 },
+    [Rarity.Legendary]: { color: '#FBBF24', damage: 1.45, magSize: 1.5, reloadTime: 0.75, weight: 3 }
+};
+
+// Fitted to a carried gun; each gun takes one of each kind
+export const Attachment = {
+    ExtendedMag: 'Extended Mag',
+    Scope: 'Scope',
+    Suppressor: 'Suppressor',
+    Stock: 'Stock'
+} as const;
+
+export type Attachment = typeof Attachment[keyof typeof Attachment];
+
+export interface AttachmentStats {
+    color: string;
+    short: string; // Label on pickups and the HUD
+}
+
+export const ATTACHMENTS: Record<Attachment, AttachmentStats> = {
+    [Attachment.ExtendedMag]: { color: '#F97316', short: 'MAG' },
+    [Attachment.Scope]: { color: '#22D3EE', short: 'SCP' },
+    [Attachment.Suppressor]: { color: '#94A3B8', short: 'SUP' },
+    [Attachment.Stock]: { color: '#A16207', short: 'STK' }
+};
+
+const EXTENDED_MAG_SIZE = 1.5; // Magazine multiplier
+const SCOPE_ZOOM = 0.75;
+const STOCK_SPREAD = 0.6; // Spread multiplier
+
+// Which synthesized gunshot a weapon plays
+export const WeaponSound = {
+    SMG: 'smg',
+    Rifle: 'rifle',
+    Shotgun: 'shotgun',
+    Sniper: 'sniper',
+    Rocket: 'rocket'
+} as const;
+
+export type WeaponSound = typeof WeaponSound[keyof typeof WeaponSound];
+
+export interface WeaponStats {
+    type: WeaponType;
+    fireRate: number; // Seconds between shots
+    damage: number;
+    speed: number;
+    spread: number; // Radians
+    count: number; // Bullets per shot
+    isRocket?: boolean;
+    color: string;
+    magSize: number;
+    reloadTime: number;
+    wallDamage: number; // Per hit on a destructible wall; a penetrating round also punches through this many tiles
+    ammoType: AmmoType;
+    sound: WeaponSound;
+    falloffStart?: number; // Distance (px) at which damage starts dropping...
+    falloffEnd?: number; // ...down to falloffMin at this distance
+    falloffMin?: number; // Share of damage left past falloffEnd (default 0)
+    penetratesWalls?: boolean; // Passes through destructible walls (see wallDamage)
+    ricochets?: number; // Bounces off indestructible walls
+    pierce?: number; // Extra targets a round passes through
+    suppressed?: boolean; // Shots are silent to bots and the minimap (suppressor)
+    zoom?: number; // View scale while held, < 1 sees further (scope)
+}
+
+type FieldSchema = { optional?: boolean } & (
+    | { kind: 'number', min: number, max?: number, integer?: boolean }
+    | { kind: 'boolean' }
+    | { kind: 'color' }
+    | { kind: 'enum', values: readonly string[] }
+);
+
+// What a weapons.json entry may contain (its id is the key, not a field;
+// suppressed and zoom only ever come from attachments)
+const WEAPON_SCHEMA: Record<Exclude<keyof WeaponStats, 'type' | 'suppressed' | 'zoom'>, FieldSchema> = {
+    fireRate: { kind: 'number', min: 0.01 },
+    damage: { kind: 'number', min: 0 },
+    speed: { kind: 'number', min: 1 },
+    spread: { kind: 'number', min: 0 },
+    count: { kind: 'number', min: 1, integer: true },
+    isRocket: { kind: 'boolean', optional: true },
+    color: { kind: 'color' },
+    magSize: { kind: 'number', min: 1, integer: true },
+    reloadTime: { kind: 'number', min: 0 },
+    wallDamage: { kind: 'number', min: 0 },
+    ammoType: { kind: 'enum', values: Object.values(AmmoType) },
+    sound: { kind: 'enum', values: Object.values(WeaponSound), optional: true },
+    falloffStart: { kind: 'number', min: 0, optional: true },
+    falloffEnd: { kind: 'number', min: 0, optional: true },
+    falloffMin: { kind: 'number', min: 0, max: 1, optional: true },
+    penetratesWalls: { kind: 'boolean', optional: true },
+    ricochets: { kind: 'number', min: 0, integer: true, optional: true },
+    pierce: { kind: 'number', min: 0, integer: true, optional: true }
+};
+
+// What the field should have been, or null if the value fits
+function checkField(value: unknown, schema: FieldSchema): string | null {
+    switch (schema.kind) {
+        case 'number': {
+            const ok = typeof value === 'number' && Number.isFinite(value) && value >= schema.min &&
+                (schema.max === undefined || value <= schema.max) && (!schema.integer || Number.isInteger(value));
+            const range = schema.max === undefined ? `>= ${schema.min}` : `from ${schema.min} to ${schema.max}`;
+            return ok ? null : `${schema.integer ? 'an integer' : 'a number'} ${range}`;
+        }
+        case 'boolean':
+            return typeof value === 'boolean' ? null : 'true or false';
+        case 'color':
+            return typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value) ? null : 'a color like "#FF8800"';
+        case 'enum':
+            return typeof value === 'string' && schema.values.includes(value) ? null : `one of ${schema.values.map(v => `"${v}"`).join(', ')}`;
+    }
+}
+
+// Check a weapons.json document, listing every problem at once so a designer
+// can fix them in one pass
+export function parseWeaponDefinitions(raw: unknown): Record<WeaponType, WeaponStats> {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new Error('Invalid weapon data: expected an object of weapons keyed by name');
+    }
+    const fields = Object.keys(WEAPON_SCHEMA) as (keyof typeof WEAPON_SCHEMA)[];
+    const errors: string[] = [];
+    const weapons: Record<WeaponType, WeaponStats> = {};
+
+    for (const [id, entry] of Object.entries(raw)) {
+        if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+            errors.push(`"${id}" must be an object`);
+            continue;
+        }
+        const values = entry as Record<string, unknown>;
+        for (const key of Object.keys(values)) {
+            if (fields.includes(key as keyof typeof WEAPON_SCHEMA)) continue;
+            const near = fields.find(f => f.toLowerCase() === key.toLowerCase());
+            errors.push(`"${id}" has unknown field "${key}"${near ? ` (did you mean "${near}"?)` : ''}`);
+        }
+        for (const field of fields) {
+            const schema = WEAPON_SCHEMA[field];
+            const value = values[field];
+            if (value === undefined) {
+                if (!schema.optional) errors.push(`"${id}" is missing ${field}`);
+                continue;
+            }
+            const expected = checkField(value, schema);
+            if (expected) errors.push(`"${id}".${field} must be ${expected} (got ${JSON.stringify(value)})`);
+        }
+        const { falloffStart, falloffEnd } = values;
+        if ((falloffStart === undefined) !== (falloffEnd === undefined)) {
+            errors.push(`"${id}" needs both falloffStart and falloffEnd`);
+        } else if (typeof falloffStart === 'number' && typeof falloffEnd === 'number' && falloffEnd <= falloffStart) {
+            errors.push(`"${id}".falloffEnd must be greater than falloffStart`);
+        }
+        weapons[id] = { sound: WeaponSound.Rifle, ...values, type: id } as WeaponStats;
+    }
+
+    if (Object.keys(weapons).length === 0 && errors.length === 0) errors.push('no weapons defined');
+    if (errors.length > 0) {
+        throw new Error(`Invalid weapon data:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    }
+    return weapons;
+}
+
+// Built from weapons.json. Mutated in place by the dev hot-reload, so always
+// look stats up here rather than keeping a copy.
+export const WEAPONS: Record<WeaponType, WeaponStats> = parseWeaponDefinitions(weaponData);
+
+export function isWeaponType(value: unknown): value is WeaponType {
+    return typeof value === 'string' && Object.hasOwn(WEAPONS, value);
+}
+
+// Where a weapon does its best work: accurate guns want distance, rockets
+// splash their owner up close
+export function idealRange(stats: WeaponStats): number {
+    if (stats.isRocket) return 450;
+    return Math.min(800, 40 / Math.max(0.05, stats.spread));
+}
+
+// Share of a weapon's damage a round still deals after flying `distance` px
+export function damageFalloff(stats: WeaponStats, distance: number): number {
+    if (stats.falloffStart === undefined || stats.falloffEnd === undefined) return 1;
+    const t = Math.max(0, Math.min(1, (distance - stats.falloffStart) / (stats.falloffEnd - stats.falloffStart)));
+    return 1 - t * (1 - (stats.falloffMin ?? 0));
+}
+
+// What a gun actually does once its rarity and attachments are applied
+export function effectiveStats(weapon: WeaponType, rarity: Rarity = Rarity.Common, attachments: readonly Attachment[] = []): WeaponStats {
+    const base = WEAPONS[weapon];
+    const tier = RARITIES[rarity];
+    const stats: WeaponStats = {
+        ...base,
+        damage: base.damage * tier.damage,
+        magSize: Math.round(base.magSize * tier.magSize),
+        reloadTime: base.reloadTime * tier.reloadTime
+    };
+    if (attachments.includes(Attachment.ExtendedMag)) stats.magSize = Math.round(stats.magSize * EXTENDED_MAG_SIZE);
+    if (attachments.includes(Attachment.Stock)) stats.spread *= STOCK_SPREAD;
+    if (attachments.includes(Attachment.Suppressor)) stats.suppressed = true;
+    if (attachments.includes(Attachment.Scope)) stats.zoom = SCOPE_ZOOM;
+    return stats;
+}
+
+// Dev: saving weapons.json retunes the running match. A weapon removed from
+// the file stays until a full reload, since someone may be holding it; a file
+// that fails validation is reported and ignored.
+if (import.meta.hot) {
+    import.meta.hot.accept('./weapons.json', (module) => {
+        if (!module) return;
+        try {
+            Object.assign(WEAPONS, parseWeaponDefinitions(module.default));
+        } catch (e) {
+            console.error(e);
+        }
+    });
+}
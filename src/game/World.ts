@@ -1,4 +1,12 @@
 import type { Vector2 } from './types';
+import { SeededRng, createSeed } from './Random';
+import type { Rng } from './Random';
+import { MAP_FORMAT_VERSION, createEmptyMarkers, validateMapData } from './MapData';
+import type { MapData, MapMarkers } from './MapData';
+import { MAP_GENERATORS, MapGeneratorId } from './MapGenerators';
+import type { MapGenerator } from './MapGenerators';
+import { Pathfinder } from './Pathfinding';
+import type { PathOptions } from './Pathfinding';
 
 export const TILE_SIZE = 40;
 
@@ -11,18 +19,45 @@ export const TileType = {
 
 export type TileType = typeof TileType[keyof typeof TileType];
 
+// First solid tile along a segment (see World.castRay)
+export interface RayHit {
+    tileX: number;
+    tileY: number;
+    tile: TileType;
+    point: Vector2; // Where the segment enters the tile (pixels)
+    normal: Vector2; // The face it entered through, pointing back out of the tile
+    t: number; // 0..1 along the segment
+}
+
+export interface WorldOptions {
+    seed?: number;
+    rng?: Rng; // Share a stream with the caller instead of seeding a new one
+    generate?: boolean; // false => blank map (all FLOOR inside an indestructible border)
+    generator?: MapGenerator; // Defaults to the Kowloon cellular automaton
+}
+
 export class World {
     public width: number;
     public height: number;
     public tiles: TileType[][];
     public wallHealth: number[][]; // Track health for each tile
     public cityHouseRect: { x: number, y: number, w: number, h: number };
-
-    constructor(width: number, height: number) {
+    public markers: MapMarkers; // Spawn/loot placements (empty => engine picks random spots)
+    public readonly seed: number;
+    public revision: number = 0; // Bumped whenever a tile changes at runtime (invalidates path caches)
+    public onTileChanged?: (x: number, y: number) => void;
+    private rng: Rng;
+    private pathfinder: Pathfinder | null = null;
+
+    // Same seed (and PRNG) => same map
+    constructor(width: number, height: number, options: WorldOptions = {}) {
         this.width = width;
         this.height = height;
+        this.seed = options.seed ?? createSeed();
+        this.rng = options.rng ?? new SeededRng(this.seed);
         this.tiles = [];
         this.wallHealth = [];
+        this.markers = createEmptyMarkers();
 
         // Define City House (Center)
         const houseW = 12;
@@ -34,212 +69,274 @@ export class World {
             h: houseH
         };
 
-        this.generateKowloonMap();
+        if (options.generate === false) {
+            this.fillBlank();
+        } else {
+            const generator = options.generator ?? MAP_GENERATORS[MapGeneratorId.Kowloon];
+            generator.generate(this, this.rng);
+            // Whatever the generator did, spawn and center must stay connected
+            this.ensureConnectivity();
+        }
+    }
+
+    public static fromData(data: MapData): World {
+        const valid = validateMapData(data);
+        const world = new World(valid.width, valid.height, { seed: valid.seed, generate: false });
+        world.cityHouseRect = { ...valid.cityHouseRect };
+        for (let x = 0; x < valid.width; x++) {
+            for (let y = 0; y < valid.height; y++) {
+                world.tiles[x][y] = valid.tiles[y * valid.width + x] as TileType;
+                world.wallHealth[x][y] = valid.wallHealth[y * valid.width + x];
+            }
+        }
+        world.markers = structuredClone(valid.markers);
+        return world;
+    }
+
+    public toData(name?: string): MapData {
+        const tiles: number[] = [];
+        const wallHealth: number[] = [];
+        for (let y = 0; y < this.height; y++) {
+            for (let x = 0; x < this.width; x++) {
+                tiles.push(this.tiles[x][y]);
+                wallHealth.push(this.wallHealth[x][y]);
+            }
+        }
+        return {
+            version: MAP_FORMAT_VERSION,
+            name,
+            seed: this.seed,
+            width: this.width,
+            height: this.height,
+            tiles,
+            wallHealth,
+            cityHouseRect: { ...this.cityHouseRect },
+            markers: structuredClone(this.markers)
+        };
     }
 
-    private generateKowloonMap() {
-        // 1. Fill with noise
+    private fillBlank() {
         for (let x = 0; x < this.width; x++) {
             this.tiles[x] = [];
             this.wallHealth[x] = [];
             for (let y = 0; y < this.height; y++) {
-                // 40% chance of wall (Kowloon Density), keep edges as walls
-                if (x === 0 || x === this.width - 1 || y === 0 || y === this.height - 1) {
-                    this.tiles[x][y] = TileType.INDESTRUCTIBLE_WALL;
-                } else {
-                    // Density tuned: 0.40 -> 0.43 (Slight increase)
-                    this.tiles[x][y] = Math.random() < 0.43 ? TileType.WALL : TileType.FLOOR;
-                }
+                const edge = x === 0 || x === this.width - 1 || y === 0 || y === this.height - 1;
+                this.tiles[x][y] = edge ? TileType.INDESTRUCTIBLE_WALL : TileType.FLOOR;
                 this.wallHealth[x][y] = 100;
             }
         }
+    }
 
-        // 2. Cellular Automata (Smooth out)
-        for (let i = 0; i < 5; i++) {
-            this.smoothMap();
-        }
-
-        // 2.5 Convert some walls to Indestructible (Sprinkle them in)
-        for (let x = 1; x < this.width - 1; x++) {
-            for (let y = 1; y < this.height - 1; y++) {
-                if (this.tiles[x][y] === TileType.WALL) {
-                    // 15% chance to become indestructible
-                    if (Math.random() < 0.15) {
-                        this.tiles[x][y] = TileType.INDESTRUCTIBLE_WALL;
-                    }
-                }
+    private ensureConnectivity() {
+        // Start from center
+        const startX = Math.floor(this.width / 2);
+        const startY = Math.floor(this.height / 2);
+        // Interior walls of any kind give way; the map border never does
+        const carve = (x: number, y: number) => {
+            if (!this.isWalkable(x, y)) {
+                this.tiles[x][y] = TileType.FLOOR;
+                this.wallHealth[x][y] = 100;
             }
-        }
+        };
+        carve(startX, startY);
 
-        // 3. Widen Alleyways (Ensure 2-block wide paths where possible)
-        // Simple pass: if a floor tile has < 2 floor neighbors (horizontal/vertical), clear a neighbor
-        for (let x = 2; x < this.width - 2; x++) {
-            for (let y = 2; y < this.height - 2; y++) {
-                if (this.tiles[x][y] === TileType.FLOOR) {
-                    // Check orthogonal neighbors
-                    let floorNeighbors = 0;
-                    if (this.tiles[x + 1][y] === TileType.FLOOR) floorNeighbors++;
-                    if (this.tiles[x - 1][y] === TileType.FLOOR) floorNeighbors++;
-                    if (this.tiles[x][y + 1] === TileType.FLOOR) floorNeighbors++;
-                    if (this.tiles[x][y - 1] === TileType.FLOOR) floorNeighbors++;
-
-                    if (floorNeighbors < 2) {
-                        // Too narrow, open up a random neighbor
-                        const dirs = [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }];
-                        const dir = dirs[Math.floor(Math.random() * dirs.length)];
-                        const nx = x + dir.x;
-                        const ny = y + dir.y;
-                        if (this.tiles[nx][ny] === TileType.WALL) {
-                            this.tiles[nx][ny] = TileType.FLOOR;
-                        }
-                    }
-                }
-            }
+        // Fill isolated pockets
+        this.fillUnreachable({ x: startX, y: startY });
+
+        // Ensure Safe Spawn Zone (Top Left) connected to center
+        let cx = 5;
+        let cy = 5;
+        // Simple path carving to center
+        while (cx < startX) {
+            carve(cx, cy);
+            cx++;
+        }
+        while (cy < startY) {
+            carve(cx, cy);
+            cy++;
         }
 
-        // 3. City Center (Open Area)
-        const centerX = Math.floor(this.width / 2);
-        const centerY = Math.floor(this.height / 2);
-        const centerRadius = 5;
-        for (let x = centerX - centerRadius; x <= centerX + centerRadius; x++) {
-            for (let y = centerY - centerRadius; y <= centerY + centerRadius; y++) {
-                if (x > 0 && x < this.width - 1 && y > 0 && y < this.height - 1) {
-                    this.tiles[x][y] = TileType.CITY_HOUSE_FLOOR;
-                }
+        // Clear spawn area
+        for (let x = 4; x <= 6; x++) {
+            for (let y = 4; y <= 6; y++) {
+                this.tiles[x][y] = TileType.FLOOR;
             }
         }
 
-        // Ensure connectivity
-        this.ensureConnectivity();
+        // The carved line reaches the center, so this only trips on a bug above
+        if (!this.findReachable({ x: startX, y: startY })[5][5]) {
+            throw new Error('Map generation left the spawn cut off from the center');
+        }
     }
 
-    private smoothMap() {
-        const newTiles = JSON.parse(JSON.stringify(this.tiles));
-        for (let x = 1; x < this.width - 1; x++) {
-            for (let y = 1; y < this.height - 1; y++) {
-                let neighbors = 0;
-                for (let dx = -1; dx <= 1; dx++) {
-                    for (let dy = -1; dy <= 1; dy++) {
-                        if (dx === 0 && dy === 0) continue;
-                        if (this.tiles[x + dx][y + dy] === TileType.WALL ||
-                            this.tiles[x + dx][y + dy] === TileType.INDESTRUCTIBLE_WALL) {
-                            neighbors++;
-                        }
-                    }
-                }
-
-                if (neighbors > 4) {
-                    newTiles[x][y] = TileType.WALL;
-                } else if (neighbors < 4) {
-                    newTiles[x][y] = TileType.FLOOR;
-                }
-            }
-        }
-        this.tiles = newTiles;
+    public isWalkable(x: number, y: number): boolean {
+        const tile = this.getTile(x, y);
+        return tile !== TileType.WALL && tile !== TileType.INDESTRUCTIBLE_WALL;
     }
 
-    private ensureConnectivity() {
-        // Start from center
-        const startX = Math.floor(this.width / 2);
-        const startY = Math.floor(this.height / 2);
-        const queue: { x: number, y: number }[] = [{ x: startX, y: startY }];
-        const visited = new Set<string>();
-        visited.add(`${startX},${startY}`);
+    // Flood fill (4-way) over walkable tiles; reachable[x][y] is true for tiles connected to start
+    public findReachable(start: { x: number, y: number }): boolean[][] {
+        const reachable: boolean[][] = [];
+        for (let x = 0; x < this.width; x++) reachable[x] = new Array(this.height).fill(false);
+        if (!this.isWalkable(start.x, start.y)) return reachable;
 
-        while (queue.length > 0) {
-            const p = queue.shift()!;
+        const queue: { x: number, y: number }[] = [start];
+        reachable[start.x][start.y] = true;
+        for (let i = 0; i < queue.length; i++) {
+            const p = queue[i];
             const dirs = [{ x: 0, y: 1 }, { x: 0, y: -1 }, { x: 1, y: 0 }, { x: -1, y: 0 }];
             for (const d of dirs) {
                 const nx = p.x + d.x;
                 const ny = p.y + d.y;
                 if (nx > 0 && nx < this.width - 1 && ny > 0 && ny < this.height - 1) {
-                    if (!visited.has(`${nx},${ny}`) && this.tiles[nx][ny] !== TileType.WALL && this.tiles[nx][ny] !== TileType.INDESTRUCTIBLE_WALL) {
-                        visited.add(`${nx},${ny}`);
+                    if (!reachable[nx][ny] && this.isWalkable(nx, ny)) {
+                        reachable[nx][ny] = true;
                         queue.push({ x: nx, y: ny });
                     }
                 }
             }
         }
+        return reachable;
+    }
 
-        // Fill isolated pockets
+    // Walkable tiles that can't be reached from start (isolated pockets)
+    public findUnreachable(start: { x: number, y: number }): { x: number, y: number }[] {
+        const reachable = this.findReachable(start);
+        const pockets: { x: number, y: number }[] = [];
         for (let x = 1; x < this.width - 1; x++) {
             for (let y = 1; y < this.height - 1; y++) {
-                if (this.tiles[x][y] === TileType.FLOOR && !visited.has(`${x},${y}`)) {
-                    this.tiles[x][y] = TileType.WALL;
-                }
+                if (this.isWalkable(x, y) && !reachable[x][y]) pockets.push({ x, y });
             }
         }
+        return pockets;
+    }
 
-        // Ensure Safe Spawn Zone (Top Left) connected to center
-        let cx = 5;
-        let cy = 5;
-        // Simple path carving to center
-        while (cx < startX) {
-            if (this.tiles[cx][cy] === TileType.WALL) this.tiles[cx][cy] = TileType.FLOOR;
-            cx++;
-        }
-        while (cy < startY) {
-            if (this.tiles[cx][cy] === TileType.WALL) this.tiles[cx][cy] = TileType.FLOOR;
-            cy++;
-        }
-
-        // Clear spawn area
-        for (let x = 4; x <= 6; x++) {
-            for (let y = 4; y <= 6; y++) {
-                this.tiles[x][y] = TileType.FLOOR;
+    // Wall off isolated FLOOR pockets so nothing spawns somewhere unreachable
+    public fillUnreachable(start: { x: number, y: number }) {
+        for (const p of this.findUnreachable(start)) {
+            if (this.tiles[p.x][p.y] === TileType.FLOOR) {
+                this.tiles[p.x][p.y] = TileType.WALL;
             }
         }
     }
 
-    // BFS Pathfinding
-    public findPath(start: { x: number, y: number }, end: { x: number, y: number }): { x: number, y: number }[] | null {
+    // A* path in pixel space: tile centers after the start tile ([] if already
+    // there, null if unreachable). Cached per start/goal until the map changes.
+    public findPath(start: Vector2, end: Vector2, options: PathOptions = {}): Vector2[] | null {
         const startTile = { x: Math.floor(start.x / TILE_SIZE), y: Math.floor(start.y / TILE_SIZE) };
         const endTile = { x: Math.floor(end.x / TILE_SIZE), y: Math.floor(end.y / TILE_SIZE) };
 
         if (startTile.x === endTile.x && startTile.y === endTile.y) return [];
 
-        const queue: { x: number, y: number }[] = [startTile];
-        const cameFrom: Record<string, { x: number, y: number } | null> = {};
-        const startKey = `${startTile.x},${startTile.y}`;
-        cameFrom[startKey] = null;
-
-        while (queue.length > 0) {
-            const current = queue.shift()!;
-
-            if (current.x === endTile.x && current.y === endTile.y) {
-                // Reconstruct path
-                const path: { x: number, y: number }[] = [];
-                let curr: { x: number, y: number } | null | undefined = current;
-                while (curr) {
-                    const c = curr as { x: number, y: number };
-                    path.push({ x: c.x * TILE_SIZE + TILE_SIZE / 2, y: c.y * TILE_SIZE + TILE_SIZE / 2 });
-                    const key = `${c.x},${c.y}`;
-                    curr = cameFrom[key];
-                }
-                return path.reverse();
+        if (!this.pathfinder) this.pathfinder = new Pathfinder(this);
+        const path = this.pathfinder.findPath(startTile, endTile, options);
+        if (!path) return null;
+
+        return path.slice(1).map(p => ({ x: p.x * TILE_SIZE + TILE_SIZE / 2, y: p.y * TILE_SIZE + TILE_SIZE / 2 }));
+    }
+
+    // True if the segment a-b only crosses walkable tiles. Points are in units
+    // of `scale` (1 = tiles, TILE_SIZE = pixels). Walks every tile the segment
+    // touches, so passing exactly through a corner needs both sides open.
+    public hasLineOfSight(a: Vector2, b: Vector2, scale: number = TILE_SIZE): boolean {
+        const ax = a.x / scale;
+        const ay = a.y / scale;
+        const bx = b.x / scale;
+        const by = b.y / scale;
+
+        let x = Math.floor(ax);
+        let y = Math.floor(ay);
+        const endX = Math.floor(bx);
+        const endY = Math.floor(by);
+        const dx = bx - ax;
+        const dy = by - ay;
+        const stepX = Math.sign(dx);
+        const stepY = Math.sign(dy);
+        const deltaX = stepX !== 0 ? Math.abs(1 / dx) : Infinity;
+        const deltaY = stepY !== 0 ? Math.abs(1 / dy) : Infinity;
+        let maxX = stepX > 0 ? (x + 1 - ax) * deltaX : stepX < 0 ? (ax - x) * deltaX : Infinity;
+        let maxY = stepY > 0 ? (y + 1 - ay) * deltaY : stepY < 0 ? (ay - y) * deltaY : Infinity;
+
+        if (!this.isWalkable(x, y)) return false;
+        // One step per tile boundary crossed; bounding the loop guards against float drift
+        let steps = Math.abs(endX - x) + Math.abs(endY - y);
+        while (steps > 0) {
+            if (Math.abs(maxX - maxY) < 1e-9) {
+                // Exactly through a corner: both neighbours must be open
+                if (!this.isWalkable(x + stepX, y) || !this.isWalkable(x, y + stepY)) return false;
+                x += stepX;
+                y += stepY;
+                maxX += deltaX;
+                maxY += deltaY;
+                steps -= 2;
+            } else if (maxX < maxY) {
+                x += stepX;
+                maxX += deltaX;
+                steps--;
+            } else {
+                y += stepY;
+                maxY += deltaY;
+                steps--;
             }
+            if (!this.isWalkable(x, y)) return false;
+        }
+        return true;
+    }
 
-            const neighbors = [
-                { x: current.x + 1, y: current.y },
-                { x: current.x - 1, y: current.y },
-                { x: current.x, y: current.y + 1 },
-                { x: current.x, y: current.y - 1 }
-            ];
-
-            for (const next of neighbors) {
-                if (next.x >= 0 && next.x < this.width && next.y >= 0 && next.y < this.height) {
-                    const tile = this.tiles[next.x][next.y];
-                    if (tile !== TileType.WALL && tile !== TileType.INDESTRUCTIBLE_WALL) {
-                        const key = `${next.x},${next.y}`;
-                        if (!(key in cameFrom)) {
-                            cameFrom[key] = current;
-                            queue.push(next);
-                        }
-                    }
-                }
+    // First wall tile the segment a-b (pixels) runs into, or null if it stays
+    // on open ground. `ignore` skips one tile, e.g. a wall a bullet has already
+    // punched through. Same tile walk as hasLineOfSight.
+    public castRay(a: Vector2, b: Vector2, ignore: { x: number, y: number } | null = null): RayHit | null {
+        const ax = a.x / TILE_SIZE;
+        const ay = a.y / TILE_SIZE;
+        const bx = b.x / TILE_SIZE;
+        const by = b.y / TILE_SIZE;
+
+        let x = Math.floor(ax);
+        let y = Math.floor(ay);
+        const endX = Math.floor(bx);
+        const endY = Math.floor(by);
+        const dx = bx - ax;
+        const dy = by - ay;
+        const stepX = Math.sign(dx);
+        const stepY = Math.sign(dy);
+        const deltaX = stepX !== 0 ? Math.abs(1 / dx) : Infinity;
+        const deltaY = stepY !== 0 ? Math.abs(1 / dy) : Infinity;
+        let maxX = stepX > 0 ? (x + 1 - ax) * deltaX : stepX < 0 ? (ax - x) * deltaX : Infinity;
+        let maxY = stepY > 0 ? (y + 1 - ay) * deltaY : stepY < 0 ? (ay - y) * deltaY : Infinity;
+
+        const solid = () => !this.isWalkable(x, y) && !(ignore && ignore.x === x && ignore.y === y);
+        const hit = (t: number, normal: Vector2): RayHit => ({
+            tileX: x,
+            tileY: y,
+            tile: this.getTile(x, y),
+            point: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t },
+            normal,
+            t
+        });
+
+        // Starting inside a wall (e.g. a muzzle poking through one): back out the way it came
+        if (solid()) return hit(0, Math.abs(dx) >= Math.abs(dy) ? { x: -stepX, y: 0 } : { x: 0, y: -stepY });
+
+        let steps = Math.abs(endX - x) + Math.abs(endY - y);
+        while (steps > 0) {
+            let t: number;
+            let normal: Vector2;
+            if (maxX < maxY) {
+                x += stepX;
+                t = maxX;
+                maxX += deltaX;
+                normal = { x: -stepX, y: 0 };
+            } else {
+                y += stepY;
+                t = maxY;
+                maxY += deltaY;
+                normal = { x: 0, y: -stepY };
             }
+            steps--;
+            if (solid()) return hit(t, normal);
         }
-        return null; // No path found
+        return null;
     }
 
     public getTile(x: number, y: number): TileType {
@@ -261,6 +358,8 @@ export class World {
         this.wallHealth[x][y] -= amount;
         if (this.wallHealth[x][y] <= 0) {
             this.tiles[x][y] = TileType.FLOOR;
+            this.revision++;
+            if (this.onTileChanged) this.onTileChanged(x, y);
             // Optional: Spawn debris particle?
         }
     }